@@ -1,5 +1,31 @@
-import { assertEquals, assertRejects } from "jsr:@std/assert";
-import { Do } from "./do.ts";
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert";
+import {
+  chainSignal,
+  defineAwaitOperator,
+  defineOperator,
+  Do,
+  Flow,
+  MemoryTracer,
+  stepInfoOf,
+  TimeoutError,
+} from "./do.ts";
+import type { Clock } from "./exception.ts";
+import { Semaphore, TokenBucket } from "./limit.ts";
+import { LruStore } from "./memo.ts";
+
+declare module "./do.ts" {
+  interface Thunk<out T, in A> {
+    scale(this: Thunk<number, A>, factor: number): Thunk<number, A>;
+    scaleAwait(this: Thunk<number, A>, factor: number): AsyncThunk<number, A>;
+  }
+  interface AsyncThunk<T, in A> {
+    scale(this: AsyncThunk<number, A>, factor: number): AsyncThunk<number, A>;
+    scaleAwait(
+      this: AsyncThunk<number, A>,
+      factor: number,
+    ): AsyncThunk<number, A>;
+  }
+}
 
 Deno.test("Do-done cancellation", () => {
   const result = Do(42).done();
@@ -144,6 +170,738 @@ Deno.test("AsyncThunk await count: case 7", async () => {
   await counter.finished;
 });
 
+Deno.test("Flow builds a reusable function", () => {
+  const parse = Flow<string>()
+    .pipe((it) => it.trim())
+    .pipe((it) => Number(it))
+    .build();
+  assertEquals(parse(" 42 "), 42);
+  assertEquals(parse("43"), 43);
+});
+
+Deno.test("Flow builds an asynchronous function", async () => {
+  const increment = Flow<number>()
+    .pipeAwait((it) => Promise.resolve(it + 1))
+    .pipe((it) => it * 2)
+    .build();
+  assertEquals(await increment(1), 4);
+  assertEquals(await increment(2), 6);
+});
+
+Deno.test("Flow composes with Do and other flows", async () => {
+  const parse = Flow<string>().pipe((it) => Number(it));
+  const double = Flow<number>().pipeAwait((it) => Promise.resolve(it * 2));
+  assertEquals(Do("21").pipeFlow(parse).done(), 21);
+  assertEquals(await Do("21").pipeFlow(parse).pipeFlow(double).done(), 42);
+  assertEquals(
+    await Flow<string>().pipeFlow(parse).pipeFlow(double).build()("4"),
+    8,
+  );
+});
+
+Deno.test("AsyncThunk await count: Flow", async () => {
+  const counter = new MicrotickCouter(10);
+  const result = await Flow<number>()
+    .pipe((it) => it + 1)
+    .pipeAwait((it) => Promise.resolve(it + 1))
+    .build()(1);
+  assertEquals(result, 3);
+  assertEquals(counter.count, 1);
+  await counter.finished;
+});
+
+Deno.test("Catch errors from the preceding steps", () => {
+  const result = Do("invalid")
+    .pipe((it) => new URL(it).href)
+    .catch(TypeError, (e) => e.name)
+    .done();
+  assertEquals(result, "TypeError");
+});
+
+Deno.test("Catch rethrows unmatched errors", () => {
+  assertThrows(
+    () =>
+      Do(42)
+        .pipe(() => {
+          throw new RangeError("out of range");
+        })
+        .catch(TypeError, () => 0)
+        .done(),
+    RangeError,
+  );
+});
+
+Deno.test("Asynchronous catch", async () => {
+  const result = await Do(42)
+    .pipeAwait(() => Promise.reject(new SyntaxError("invalid")))
+    .pipe((it) => it + 1)
+    .catchAwait(SyntaxError, () => Promise.resolve(0))
+    .done();
+  assertEquals(result, 0);
+});
+
+Deno.test("Try turns the outcome into TryChain", async () => {
+  const result = Do(42)
+    .pipe((): number => {
+      throw new RangeError("out of range");
+    })
+    .try()
+    .pipe((it) => it.case(RangeError, () => -1).done())
+    .done();
+  assertEquals(result, -1);
+  const asyncResult = await Do(42)
+    .pipeAwait((it) => Promise.resolve(it + 1))
+    .try()
+    .done();
+  assertEquals(asyncResult.result, { type: "Ok", value: 43 });
+});
+
+Deno.test("Finally runs whether the steps have thrown or not", async () => {
+  const log: string[] = [];
+  Do(42).finally(() => log.push("ok")).done();
+  assertThrows(() =>
+    Do(42)
+      .pipe(() => {
+        throw new Error("failed");
+      })
+      .finally(() => log.push("error"))
+      .done()
+  );
+  await assertRejects(() =>
+    Do(42)
+      .pipeAwait(() => Promise.reject(new Error("failed")))
+      .finallyAwait(() => {
+        log.push("async error");
+        return Promise.resolve();
+      })
+      .done()
+  );
+  assertEquals(log, ["ok", "error", "async error"]);
+});
+
+Deno.test("Abort the chain between the steps", async () => {
+  const controller = new AbortController();
+  const log: string[] = [];
+  const reason = new Error("aborted");
+  await assertRejects(
+    () =>
+      Do(42)
+        .pipeAwait((it, { signal }) => {
+          log.push(`first: ${signal === controller.signal}`);
+          controller.abort(reason);
+          return Promise.resolve(it);
+        })
+        .pipeAwait((it) => {
+          log.push("second");
+          return Promise.resolve(it);
+        })
+        .done({ signal: controller.signal }),
+    Error,
+    "aborted",
+  );
+  assertEquals(log, ["first: true"]);
+});
+
+Deno.test("Abort propagates through catch and try, but runs finally", async () => {
+  const controller = new AbortController();
+  const log: string[] = [];
+  const reason = new Error("aborted");
+  const rejected = await assertRejects(() =>
+    Do(42)
+      .pipeAwait((_it, { signal }) => {
+        controller.abort(reason);
+        // Like fetch, reject with another error in reaction to the signal
+        return signal.aborted
+          ? Promise.reject(new Error("cut short"))
+          : Promise.resolve(0);
+      })
+      .catch(Error, () => "caught")
+      .finally(() => log.push("finally"))
+      .try()
+      .done({ signal: controller.signal })
+  );
+  assertEquals(rejected, reason);
+  assertEquals(log, ["finally"]);
+});
+
+Deno.test("Pass the signal to rcallAwait", async () => {
+  const controller = new AbortController();
+  function receive(this: number, signal: AbortSignal): Promise<boolean> {
+    return Promise.resolve(signal === controller.signal);
+  }
+  const result = await Do(42)
+    .rcallAwait(receive, chainSignal)
+    .done({ signal: controller.signal });
+  assertEquals(result, true);
+});
+
+Deno.test("Step timeout", async () => {
+  const clock = new ManualClock();
+  let aborted = false;
+  function lookup(
+    it: number,
+    { signal }: { signal: AbortSignal },
+  ): Promise<number> {
+    return new Promise((resolve) => {
+      signal.addEventListener("abort", () => {
+        aborted = true;
+        resolve(it);
+      });
+    });
+  }
+  const result = Do(42).pipeAwait(lookup, { timeout: 500 }).done({ clock });
+  clock.advance(500);
+  const error = await assertRejects(() => result, TimeoutError);
+  assertEquals(error.step, "lookup");
+  assertEquals(aborted, true);
+});
+
+Deno.test("Deadline is handed to the steps", async () => {
+  const clock = new ManualClock();
+  const deadlines: (number | undefined)[] = [];
+  const result = await Do(42)
+    .pipeAwait((it, { deadline }) => {
+      deadlines.push(deadline);
+      return Promise.resolve(it);
+    }, { timeout: 100 })
+    .pipeAwait((it, { deadline }) => {
+      deadlines.push(deadline);
+      return Promise.resolve(it + 1);
+    })
+    .done({ clock, deadline: 50 });
+  assertEquals(result, 43);
+  assertEquals(deadlines, [50, 50]);
+  await assertRejects(
+    () =>
+      Do(42).pipeAwait((it) => Promise.resolve(it)).done({
+        clock,
+        deadline: 0,
+      }),
+    TimeoutError,
+  );
+});
+
+Deno.test("Errors are annotated with the step", () => {
+  function parse(input: string): unknown {
+    return JSON.parse(input);
+  }
+  const error = assertThrows(() =>
+    Do("invalid")
+      .pipe((it) => it.trim(), { label: "trim" })
+      .pipe(parse)
+      .done()
+  );
+  assertEquals(stepInfoOf(error), { label: "parse", index: 1 });
+});
+
+Deno.test("Trace the steps with MemoryTracer", async () => {
+  const tracer = new MemoryTracer();
+  const result = await Do(1)
+    .pipe((it) => it + 1, { label: "increment" })
+    .pipeAwait((it) => Promise.resolve(it * 2), { label: "double" })
+    .pipe((): number => {
+      throw new RangeError("out of range");
+    }, { label: "fail" })
+    .pipe((it) => it + 1, { label: "skipped" })
+    .catch(RangeError, () => -1)
+    .done({ tracer });
+  assertEquals(result, -1);
+  assertEquals(tracer.runs.length, 1);
+  assertEquals(
+    tracer.runs[0].spans.map(({ label, index, status }) => ({
+      label,
+      index,
+      status,
+    })),
+    [
+      { label: "increment", index: 0, status: "ok" },
+      { label: "double", index: 1, status: "ok" },
+      { label: "fail", index: 2, status: "error" },
+      { label: "catch", index: 4, status: "ok" },
+    ],
+  );
+});
+
+Deno.test("Errors from a lone asynchronous step are annotated", async () => {
+  const error = await assertRejects(() =>
+    Do(42)
+      .pipe((it) => it + 1)
+      .pipeAwait(() => Promise.reject(new Error("failed")), { label: "fetch" })
+      .done()
+  );
+  assertEquals(stepInfoOf(error), { label: "fetch", index: 1 });
+});
+
+Deno.test("MemoryTracer nests the branches and the chains run within a step", async () => {
+  const tracer = new MemoryTracer();
+  const double = Flow<number>()
+    .pipe((it) => it * 2, { label: "double" })
+    .build();
+  const triple = Flow<number>()
+    .pipeAwait((it) => Promise.resolve(it * 3), { label: "triple" })
+    .build();
+  const result = await Do(1)
+    .pipeAll({
+      a: (it) => double(it),
+      b: (it, context) => triple(it, context),
+    })
+    .pipeAwait((it, context) => triple(it.a + it.b, context), {
+      label: "outer",
+    })
+    .done({ tracer });
+  assertEquals(result, 15);
+  type Tree = { label: string; children: Tree[] };
+  const treeOf = (spans: typeof tracer.runs[0]["spans"]): Tree[] =>
+    spans.map((span) => ({
+      label: span.label,
+      children: treeOf(span.children),
+    }));
+  assertEquals(tracer.runs.length, 1);
+  assertEquals(treeOf(tracer.runs[0].spans), [
+    {
+      label: "pipeAll",
+      children: [
+        { label: "a", children: [] },
+        { label: "b", children: [{ label: "triple", children: [] }] },
+      ],
+    },
+    { label: "outer", children: [{ label: "triple", children: [] }] },
+  ]);
+  const [pipeAll] = tracer.runs[0].spans;
+  assertEquals(
+    pipeAll.children.map(({ index, status, output }) => ({
+      index,
+      status,
+      output,
+    })),
+    [
+      { index: 0, status: "ok", output: 2 },
+      { index: 1, status: "ok", output: 3 },
+    ],
+  );
+});
+
+Deno.test("Fan out with pipeAll", async () => {
+  const record = await Do(3)
+    .pipeAll({
+      sync: (it) => it + 1,
+      async: (it) => Promise.resolve(String(it)),
+    })
+    .done();
+  assertEquals(record, { sync: 4, async: "3" });
+
+  const tuple = await Do(3)
+    .pipeAwait((it) => Promise.resolve(it * 2))
+    .pipeAll([(it) => it, (it) => Promise.resolve([it])])
+    .done();
+  assertEquals(tuple, [6, [6]]);
+});
+
+Deno.test("pipeAll aborts the other branches on failure", async () => {
+  const log: unknown[] = [];
+  await assertRejects(
+    () =>
+      Do(42)
+        .pipeAll([
+          () => Promise.reject(new Error("failed")),
+          (_, { signal }) =>
+            new Promise((resolve) => {
+              signal.addEventListener("abort", () => {
+                log.push(signal.reason.message);
+                resolve(0);
+              });
+            }),
+        ])
+        .done(),
+    Error,
+    "failed",
+  );
+  assertEquals(log, ["failed"]);
+});
+
+Deno.test("Conditional steps with when and unless", async () => {
+  const parse = Flow<string | number>()
+    .when((it) => typeof it === "string", (it) => Number(it))
+    .pipe((it) => it * 2)
+    .build();
+  assertEquals(parse("21"), 42);
+  assertEquals(parse(21), 42);
+
+  const length = Flow<string | null>()
+    .unless((it) => it === null, (it) => it.length)
+    .build();
+  assertEquals(length("foo"), 3);
+  assertEquals(length(null), null);
+
+  const result = await Do(42)
+    .whenAwait((it) => it > 0, (it) => Promise.resolve(-it))
+    .unlessAwait((it) => it > 0, (it) => Promise.resolve(`${it}`))
+    .done();
+  assertEquals(result, "-42");
+});
+
+Deno.test("Match on the discriminant", async () => {
+  type Shape =
+    | { kind: "circle"; radius: number }
+    | { kind: "square"; side: number }
+    | { kind: "point" };
+  const area = Flow<Shape>()
+    .match("kind", {
+      circle: (it) => it.radius * it.radius * 3,
+      square: (it) => it.side * it.side,
+    })
+    .build();
+  assertEquals(area({ kind: "circle", radius: 2 }), 12);
+  assertEquals(area({ kind: "square", side: 2 }), 4);
+  assertEquals(area({ kind: "point" }), { kind: "point" });
+
+  const result = await Do<Shape>({ kind: "square", side: 3 })
+    .matchAwait("kind", {
+      circle: () => "circle",
+      square: (it) => Promise.resolve(`square ${it.side}`),
+      point: () => "point",
+    })
+    .done();
+  assertEquals(result, "square 3");
+});
+
+Deno.test("Chains branched from the same chain are independent", async () => {
+  const base = Do(1).pipe((it) => it + 1);
+  const left = base.pipe((it) => it * 10);
+  const right = base.pipeAwait((it) => Promise.resolve(it * 100));
+  assertEquals(base.done(), 2);
+  assertEquals(left.done(), 20);
+  assertEquals(await right.done(), 200);
+  assertEquals(left.pipeFlow(Flow<number>().pipe((it) => -it)).done(), -20);
+});
+
+Deno.test("Long chains", async () => {
+  let flow = Flow<number>();
+  for (let i = 0; i < 10000; i++) {
+    flow = flow.pipe((it) => it + 1);
+  }
+  const f = flow.pipeAwait((it) => Promise.resolve(it)).build();
+  assertEquals(await f(0), 10000);
+  assertEquals(await f(1), 10001);
+});
+
+Deno.test("Custom operators", async () => {
+  const scale = (factor: number) => (it: number) => it * factor;
+  defineOperator("scale", scale);
+  defineAwaitOperator(
+    "scaleAwait",
+    (factor) => (it: number) => Promise.resolve(it * factor),
+  );
+  assertEquals(Do(1).scale(2).scale(3).done(), 6);
+  assertEquals(await Do(1).scaleAwait(2).scale(3).done(), 6);
+
+  const tracer = new MemoryTracer();
+  Do(1).scale(2).done({ tracer });
+  assertEquals(tracer.runs[0].spans.map((span) => span.label), ["scale"]);
+
+  // Defining the same one again, like a module evaluated twice
+  defineOperator("scale", scale);
+  assertEquals(Do(1).scale(2).done(), 2);
+  assertThrows(
+    () => defineOperator("scale", () => (it: number) => it),
+    TypeError,
+    "already defined",
+  );
+  assertThrows(
+    () =>
+      defineAwaitOperator(
+        "scale",
+        (factor) => (it: number) => Promise.resolve(it * factor),
+      ),
+    TypeError,
+    "already defined",
+  );
+  assertThrows(
+    () => defineOperator("pipe", () => (it: number) => it),
+    TypeError,
+    "already defined",
+  );
+});
+
+Deno.test("Strict mode rejects promises from synchronous steps", async () => {
+  const chain = Do(42).pipe((it) => Promise.resolve(it), { label: "load" });
+  assertEquals(await chain.done(), 42);
+  assertThrows(
+    () => chain.done({ strict: true }),
+    TypeError,
+    "Step load returned a promise",
+  );
+  assertEquals(
+    chain.catch(TypeError, () => 0).done({ strict: true }),
+    0,
+  );
+
+  // The fast path of AsyncThunk
+  assertThrows(
+    () =>
+      chain
+        .pipeAwait((it) => it)
+        .done({ strict: true }),
+    TypeError,
+    "Step load returned a promise",
+  );
+  // The slow path of AsyncThunk
+  await assertRejects(
+    () =>
+      Do(42)
+        .pipeAwait((it) => Promise.resolve(it))
+        .tap((it) => Promise.resolve(it))
+        .pipe((it) => it + 1)
+        .done({ strict: true }),
+    TypeError,
+    "returned a promise",
+  );
+});
+
+Deno.test("pipeMaybeAwait awaits only thenables", async () => {
+  const cache = new Map([["cached", 1]]);
+  const load = Flow<string>()
+    .pipeMaybeAwait((it) => cache.get(it) ?? Promise.resolve(2))
+    .build();
+  assertEquals(await load("cached"), 1);
+  assertEquals(await load("other"), 2);
+
+  const counter = new MicrotickCouter(10);
+  const result = await Do(0)
+    .pipeAwait((it) => Promise.resolve(it + 1))
+    .pipeMaybeAwait((it) => it + 1)
+    .done();
+  assertEquals(result, 2);
+  // Same as .pipeAwait().pipe()
+  assertEquals(counter.count, 2);
+  await counter.finished;
+});
+
+Deno.test("Update a part of the value with at", async () => {
+  const state = {
+    user: { name: " Alice ", tags: ["a", "b"] },
+    todos: [{ title: "x", done: false }],
+  };
+  const next = Do(state)
+    .at("user", "name")
+    .pipe((it) => it.trim())
+    .done();
+  assertEquals(next, { ...state, user: { ...state.user, name: "Alice" } });
+  assertEquals(state.user.name, " Alice ");
+  assertEquals(next.todos === state.todos, true);
+  assertEquals(next.user.tags === state.user.tags, true);
+
+  const toggled = await Do(state)
+    .pipeAwait((it) => Promise.resolve(it))
+    .at("todos", 0, "done")
+    .pipeAwait((it) => Promise.resolve(!it))
+    .end()
+    .pipe((it) => it.todos)
+    .done();
+  assertEquals(toggled, [{ title: "x", done: true }]);
+});
+
+Deno.test("at runs the steps with the options of the chain", async () => {
+  const state = { user: { name: "Alice" }, count: 1 };
+
+  const clock = new ManualClock();
+  let settled = false;
+  const result = Do(state)
+    .at("count")
+    .pipeAwait(() => new Promise<number>(() => {}), {
+      timeout: 100,
+      label: "stuck",
+    })
+    .done({ clock });
+  result.then(undefined, () => settled = true);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  clock.advance(100);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  // Timed out with the clock of the chain, not the system clock
+  assertEquals(settled, true);
+  const error = await assertRejects(() => result, TimeoutError);
+  assertEquals(error.step, "stuck");
+
+  type Tree = { label: string; children: Tree[] };
+  const treeOf = (spans: MemoryTracer["runs"][0]["spans"]): Tree[] =>
+    spans.map((span) => ({
+      label: span.label,
+      children: treeOf(span.children),
+    }));
+  const tracer = new MemoryTracer();
+  Do(state)
+    .at("user", "name")
+    .pipe((it) => it.toUpperCase(), { label: "upper" })
+    .done({ tracer });
+  await Do(state)
+    .pipeAwait((it) => Promise.resolve(it), { label: "load" })
+    .at("count")
+    .pipe((it) => it + 1, { label: "increment" })
+    .end()
+    .at("count")
+    .pipeAwait((it) => Promise.resolve(it * 2), { label: "double" })
+    .done({ tracer });
+  assertEquals(tracer.runs.map((run) => treeOf(run.spans)), [
+    [{ label: "at", children: [{ label: "upper", children: [] }] }],
+    [
+      { label: "load", children: [] },
+      { label: "at", children: [{ label: "increment", children: [] }] },
+      { label: "at", children: [{ label: "double", children: [] }] },
+    ],
+  ]);
+
+  assertThrows(
+    () =>
+      Do(state)
+        .at("count")
+        .pipe((it) => Promise.resolve(it) as never, { label: "load" })
+        .done({ strict: true }),
+    TypeError,
+    "Step load returned a promise",
+  );
+  await assertRejects(
+    () =>
+      Do(state)
+        .at("count")
+        .pipeAwait((it) => Promise.resolve(it))
+        .pipe((it) => Promise.resolve(it) as never, { label: "load" })
+        .done({ strict: true }),
+    TypeError,
+    "Step load returned a promise",
+  );
+});
+
+Deno.test("memoAwait shares the results for the same key", async () => {
+  const calls: string[] = [];
+  const clock = new ManualClock();
+  const load = Flow<string>()
+    .memoAwait((it) => it, (it) => {
+      calls.push(it);
+      return it === "bad"
+        ? Promise.reject(new Error("failed"))
+        : Promise.resolve(it.toUpperCase());
+    }, { ttl: 1000, clock })
+    .build();
+
+  assertEquals(await Promise.all([load("a"), load("a"), load("b")]), [
+    "A",
+    "A",
+    "B",
+  ]);
+  assertEquals(await load("a"), "A");
+  assertEquals(calls, ["a", "b"]);
+
+  clock.advance(1000);
+  assertEquals(await load("a"), "A");
+  assertEquals(calls, ["a", "b", "a"]);
+
+  // Rejections are not cached by default
+  await assertRejects(() => load("bad"), Error, "failed");
+  await assertRejects(() => load("bad"), Error, "failed");
+  assertEquals(calls, ["a", "b", "a", "bad", "bad"]);
+});
+
+Deno.test("memoAwait shares the pending calls between the chains with a cache", async () => {
+  const cache = new LruStore<string, string>();
+  const calls: string[] = [];
+  const release = Promise.withResolvers<void>();
+  const load = async (it: string) => {
+    calls.push(it);
+    await release.promise;
+    return it.toUpperCase();
+  };
+  const client1 = new AbortController();
+  const first = Do("a").memoAwait((it) => it, load, { cache }).done({
+    signal: client1.signal,
+  });
+  const second = Do("a").memoAwait((it) => it, load, { cache }).done();
+  client1.abort(new Error("client1 gone"));
+  await assertRejects(() => first, Error, "client1 gone");
+  release.resolve();
+  assertEquals(await second, "A");
+  assertEquals(calls, ["a"]);
+});
+
+Deno.test("Limit the concurrency of the steps", async () => {
+  const semaphore = new Semaphore(1);
+  const log: string[] = [];
+  const task = (name: string) =>
+    Do(name)
+      .pipeAwait(async (it) => {
+        log.push(`start ${it}`);
+        await Promise.resolve();
+        log.push(`end ${it}`);
+        return it;
+      }, { limiter: semaphore })
+      .done();
+  assertEquals(await Promise.all([task("a"), task("b")]), ["a", "b"]);
+  assertEquals(log, ["start a", "end a", "start b", "end b"]);
+  assertEquals(semaphore.available, 1);
+
+  // Waiting is cancelled with the signal of the chain
+  const release = await semaphore.acquire();
+  const controller = new AbortController();
+  const waiting = Do(0)
+    .pipeAwait((it) => Promise.resolve(it), { limiter: semaphore })
+    .done({ signal: controller.signal });
+  controller.abort(new Error("cancelled"));
+  await assertRejects(() => waiting, Error, "cancelled");
+  assertEquals(semaphore.waiting, 0);
+  release();
+  assertEquals(semaphore.available, 1);
+});
+
+Deno.test("Limit the rate of the steps", async () => {
+  const clock = new ManualClock();
+  const bucket = new TokenBucket({ capacity: 2, interval: 100, clock });
+  const started: number[] = [];
+  const tasks = [1, 2, 3, 4].map((i) =>
+    Do(i)
+      .pipeAwait((it) => {
+        started.push(it);
+        return Promise.resolve(it);
+      }, { limiter: bucket })
+      .done()
+  );
+  await Promise.resolve();
+  await Promise.resolve();
+  assertEquals(started, [1, 2]);
+  clock.advance(100);
+  await Promise.all(tasks.slice(0, 3));
+  assertEquals(started, [1, 2, 3]);
+  clock.advance(100);
+  assertEquals(await Promise.all(tasks), [1, 2, 3, 4]);
+});
+
+class ManualClock implements Clock {
+  private _now = 0;
+  private _timers: { at: number; resolve: () => void }[] = [];
+
+  now(): number {
+    return this._now;
+  }
+
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = { at: this._now + ms, resolve };
+      this._timers.push(timer);
+      signal?.addEventListener("abort", () => {
+        this._timers = this._timers.filter((other) => other !== timer);
+        reject(signal.reason);
+      });
+    });
+  }
+
+  advance(ms: number): void {
+    this._now += ms;
+    const due = this._timers.filter((timer) => timer.at <= this._now);
+    this._timers = this._timers.filter((timer) => timer.at > this._now);
+    for (const timer of due) {
+      timer.resolve();
+    }
+  }
+}
+
 class MicrotickCouter {
   private _count: number;
   readonly maxCount: number;
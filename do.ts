@@ -1,3 +1,21 @@
+import {
+  type Clock,
+  type ErrorPredicate,
+  isErrorOf,
+  type MatchedError,
+  systemClock,
+  TryChain,
+} from "./exception.ts";
+import type { Limiter } from "./limit.ts";
+import { memoize, type MemoOptions } from "./memo.ts";
+import {
+  type Path,
+  type PathKey,
+  updateIn,
+  updateInAsync,
+  type ValueAt,
+} from "./optics.ts";
+
 /**
  * Initiates an extended method chain.
  * @param value the leftmost expression of the chain
@@ -13,41 +31,1121 @@
  *   ```
  */
 export function Do<T>(value: T): Thunk<T> {
-  return new (Thunk as ThunkConstructor<T>)([[false, () => value]]);
+  return new (Thunk as ThunkConstructor<T>)(
+    append(undefined, { kind: "value", value }),
+  );
+}
+
+/**
+ * Initiates a reusable method chain that takes its leftmost expression later.
+ * @returns the method chain builder, which can be turned into a function with `build()`.
+ *
+ * @example
+ *   ```typescript
+ *   const parse = Flow<string>()
+ *     .pipe((it) => it.trim())
+ *     .pipe((it) => Number(it))
+ *     .build();
+ *   console.log(parse(" 42 ")); // => 42
+ *   console.log(parse("43 ")); // => 43
+ *   ```
+ */
+export function Flow<A>(): Thunk<A, A> {
+  return new (Thunk as ThunkConstructor<A, A>)(undefined);
+}
+
+/**
+ * The options for executing an asynchronous chain, given to {@link AsyncThunk.done} or the function built by {@link AsyncThunk.build}.
+ */
+export interface RunOptions extends TraceOptions {
+  /**
+   * The signal to stop the chain. It is checked between the steps, and the chain is rejected with its reason once aborted.
+   * The reason takes the place of the outcome of the preceding steps, including the errors of the steps cut short by the abort,
+   * so that `finally` stages run, whereas `catch` and `try` stages let it propagate.
+   * The steps can also receive it via {@link StepContext}.
+   */
+  readonly signal?: AbortSignal | undefined;
+  /**
+   * The time by which the chain should finish, in milliseconds as in `clock.now()`.
+   * The step running at that time is rejected with {@link TimeoutError}.
+   */
+  readonly deadline?: number | undefined;
+}
+
+/**
+ * The options for an asynchronous step, like {@link AsyncThunk.pipeAwait}.
+ */
+export interface StepOptions extends LabelOptions {
+  /**
+   * The time limit for the step in milliseconds. The step is rejected with {@link TimeoutError} if it takes longer.
+   */
+  readonly timeout?: number | undefined;
+  /**
+   * The limiter to wait for before the step starts, like `Semaphore` or `TokenBucket` of `limit.ts`.
+   * Waiting is cancelled with the signal of the chain, and counts towards `timeout`.
+   */
+  readonly limiter?: Limiter | undefined;
+}
+
+/**
+ * The options for {@link AsyncThunk.memoAwait}.
+ */
+export interface MemoStepOptions<K, V> extends MemoOptions<K, V>, StepOptions {}
+
+/**
+ * The context passed to the asynchronous steps, like the callback of {@link AsyncThunk.pipeAwait}.
+ */
+export interface StepContext {
+  /**
+   * The signal given to {@link AsyncThunk.done}, or a signal that is never aborted if none is given.
+   * Pass it to `fetch` or timers so that they also stop.
+   */
+  readonly signal: AbortSignal;
+  /**
+   * The time by which the step should finish, as in `clock.now()`, considering both {@link RunOptions.deadline} and {@link StepOptions.timeout}.
+   * `undefined` if there is no limit.
+   */
+  readonly deadline: number | undefined;
+  /**
+   * The source of time for `deadline`.
+   */
+  readonly clock: Clock;
+  /**
+   * The tracer given to {@link AsyncThunk.done}, if any.
+   */
+  readonly tracer?: Tracer | undefined;
+  /**
+   * Whether the chain runs in the strict mode. See {@link TraceOptions.strict}.
+   */
+  readonly strict?: boolean | undefined;
+  /**
+   * The span of the running step, if traced. The chains run with this context nest their steps in it.
+   */
+  readonly parentSpanId?: number | undefined;
+}
+
+/**
+ * The error from an asynchronous step that has exceeded its timeout or the deadline of the chain.
+ *
+ * The step is notified through the signal of {@link StepContext}, and its late result is discarded.
+ */
+export class TimeoutError extends Error {
+  /**
+   * The label of the step. See {@link LabelOptions.label}.
+   */
+  readonly step: string;
+
+  /**
+   * @param step the label of the step
+   * @param ms the time given to the step in milliseconds
+   */
+  constructor(step: string, ms: number) {
+    super(`Step ${step || "(anonymous)"} timed out after ${ms}ms`);
+    this.name = "TimeoutError";
+    this.step = step;
+  }
+}
+
+/**
+ * A placeholder for the arguments of `rcallAwait`, which is replaced with the signal of {@link StepContext} when the step is executed.
+ *
+ * By itself, it is a signal that is never aborted.
+ *
+ * @example
+ *   ```typescript
+ *   async function fetchText(this: string, signal: AbortSignal): Promise<string> {
+ *     const response = await fetch(this, { signal });
+ *     return await response.text();
+ *   }
+ *   const text = await Do(url)
+ *     .rcallAwait(fetchText, chainSignal)
+ *     .done({ signal: AbortSignal.timeout(1000) });
+ *   ```
+ */
+export const chainSignal: AbortSignal = new AbortController().signal;
+
+/**
+ * The branches of {@link AsyncThunk.pipeAll}, in a tuple or in a record.
+ */
+export type BranchFunctions<T> =
+  | readonly ((value: T, context: StepContext) => unknown)[]
+  | { readonly [key: string]: (value: T, context: StepContext) => unknown };
+
+/**
+ * The results of {@link BranchFunctions}, in the same shape as the branches.
+ */
+export type BranchResults<Fs> = {
+  -readonly [K in keyof Fs]: Fs[K] extends (...args: never[]) => infer R
+    ? Awaited<R>
+    : never;
+};
+
+/**
+ * The values which satisfy the predicate of {@link Thunk.when}: the guarded type for a type guard, `T` otherwise.
+ */
+export type NarrowedBy<T, P> = P extends (value: T) => value is infer S & T
+  ? S & T
+  : T;
+
+/**
+ * The values which do not satisfy the predicate of {@link Thunk.when}: the rest of the guarded type for a type guard, `T` otherwise.
+ */
+export type ExcludedBy<T, P> = P extends (value: T) => value is infer S & T
+  ? Exclude<T, S>
+  : T;
+
+/**
+ * The handlers of {@link Thunk.match}, keyed by the values of the discriminant.
+ */
+export type MatchHandlers<T, K extends keyof T> = {
+  readonly [V in T[K] & PropertyKey]?: (
+    value: Extract<T, { readonly [P in K]: V }>,
+  ) => unknown;
+};
+
+/**
+ * The handlers of {@link Thunk.matchAwait}, keyed by the values of the discriminant.
+ */
+export type MatchAwaitHandlers<T, K extends keyof T> = {
+  readonly [V in T[K] & PropertyKey]?: (
+    value: Extract<T, { readonly [P in K]: V }>,
+    context: StepContext,
+  ) => unknown;
+};
+
+/**
+ * The result of {@link Thunk.match}: the results of the handlers, and the unhandled variants as they are.
+ */
+export type MatchResult<T, K extends keyof T, H> =
+  | {
+    [V in keyof H]: H[V] extends (...args: never[]) => infer R ? R : never;
+  }[keyof H]
+  | Exclude<T, { readonly [P in K]: keyof H }>;
+
+/**
+ * The options for a step, like {@link Thunk.pipe}.
+ */
+export interface LabelOptions {
+  /**
+   * The name of the step, used in tracing and in {@link stepInfoOf}. Defaults to the name of the callback function.
+   */
+  readonly label?: string | undefined;
+}
+
+/**
+ * The location of a step in a chain, as reported by {@link stepInfoOf}.
+ */
+export interface StepInfo {
+  /**
+   * The label of the step. See {@link LabelOptions.label}.
+   */
+  readonly label: string;
+  /**
+   * The index of the step in the chain, starting from 0. The leftmost expression given to {@link Do} is not counted.
+   */
+  readonly index: number;
+}
+
+/**
+ * The event reported to {@link Tracer} when a step starts.
+ */
+export interface TraceEvent extends StepInfo {
+  /**
+   * The identifier of the execution of the chain, which is unique in the process.
+   */
+  readonly runId: number;
+  /**
+   * The identifier of the execution of the step, which is unique in the process.
+   */
+  readonly spanId: number;
+  /**
+   * The span the step is nested in, like the `pipeAll` step for its branches, or `undefined` at the top level.
+   */
+  readonly parentSpanId: number | undefined;
+  /**
+   * The input of the step. For error handling steps like `catch`, this is the error to handle.
+   */
+  readonly input: unknown;
+}
+
+/**
+ * The event reported to {@link Tracer} when a step finishes.
+ */
+export interface TraceEndEvent extends TraceEvent {
+  /** The output of the step */
+  readonly output: unknown;
+  /** The time taken by the step in milliseconds, as in `clock.now()` */
+  readonly duration: number;
+}
+
+/**
+ * The event reported to {@link Tracer} when a step throws.
+ */
+export interface TraceErrorEvent extends TraceEvent {
+  /** The error thrown from the step */
+  readonly error: unknown;
+  /** The time taken by the step in milliseconds, as in `clock.now()` */
+  readonly duration: number;
+}
+
+/**
+ * Receives the events of each step of a chain. Give it to `done()` via {@link TraceOptions}.
+ *
+ * The steps skipped due to errors are not reported. See {@link MemoryTracer} for a built-in implementation.
+ */
+export interface Tracer {
+  /** Called when a step starts */
+  start?(event: TraceEvent): void;
+  /** Called when a step finishes */
+  end?(event: TraceEndEvent): void;
+  /** Called when a step throws */
+  error?(event: TraceErrorEvent): void;
+}
+
+/**
+ * The options for executing a chain, given to {@link Thunk.done} or the function built by {@link Thunk.build}.
+ */
+export interface TraceOptions {
+  /**
+   * The tracer to receive the events of each step.
+   */
+  readonly tracer?: Tracer | undefined;
+  /**
+   * The span to nest the steps in. See {@link TraceEvent.parentSpanId}.
+   * Usually given through {@link StepContext}, by passing it as the options of a chain run within a step.
+   */
+  readonly parentSpanId?: number | undefined;
+  /**
+   * The source of time for the durations reported to `tracer`,
+   * and for `deadline` and {@link StepOptions.timeout} in asynchronous chains. Defaults to {@link systemClock}.
+   */
+  readonly clock?: Clock | undefined;
+  /**
+   * Rejects the promises and other thenables returned from synchronous steps like {@link Thunk.pipe},
+   * which are likely to be mistakes for {@link Thunk.pipeAwait}. The error is thrown from the step.
+   */
+  readonly strict?: boolean | undefined;
+}
+
+/**
+ * A step recorded by {@link MemoryTracer}.
+ */
+export interface TraceSpan extends StepInfo {
+  /** See {@link TraceEvent.spanId} */
+  readonly spanId: number;
+  /** The input of the step */
+  readonly input: unknown;
+  /** `"running"` until the step finishes */
+  status: "running" | "ok" | "error";
+  /** The output of the step, if it has finished */
+  output?: unknown;
+  /** The error thrown from the step, if any */
+  error?: unknown;
+  /** The time taken by the step in milliseconds, if it has finished */
+  duration?: number;
+  /** The spans nested in the step, like the branches of `pipeAll`, in the order of their start */
+  readonly children: TraceSpan[];
+}
+
+/**
+ * An execution of a chain recorded by {@link MemoryTracer}.
+ */
+export interface TraceRun {
+  /** See {@link TraceEvent.runId} */
+  readonly runId: number;
+  /** The steps in the order of execution */
+  readonly spans: TraceSpan[];
+}
+
+/**
+ * A {@link Tracer} that records the steps in memory, as a tree of the executions and their steps.
+ *
+ * The steps nested in another step, like the branches of `pipeAll`, are recorded in the `children` of its span.
+ *
+ * @example
+ *   ```typescript
+ *   const tracer = new MemoryTracer();
+ *   await Do(id)
+ *     .pipeAwait(fetchUser, { label: "fetch user" })
+ *     .pipe((user) => user.name)
+ *     .done({ tracer });
+ *   for (const span of tracer.runs[0].spans) {
+ *     console.log(span.label, span.status, span.duration);
+ *   }
+ *   ```
+ */
+export class MemoryTracer implements Tracer {
+  /**
+   * The recorded executions at the top level, in the order of their first steps.
+   */
+  readonly runs: TraceRun[] = [];
+  private readonly _runs = new Map<number, TraceRun>();
+  private readonly _running = new Map<number, TraceSpan>();
+
+  start(event: TraceEvent): void {
+    const span: TraceSpan = {
+      spanId: event.spanId,
+      label: event.label,
+      index: event.index,
+      input: event.input,
+      status: "running",
+      children: [],
+    };
+    const parent = event.parentSpanId !== undefined
+      ? this._running.get(event.parentSpanId)
+      : undefined;
+    if (parent !== undefined) {
+      parent.children.push(span);
+    } else {
+      let run = this._runs.get(event.runId);
+      if (run === undefined) {
+        run = { runId: event.runId, spans: [] };
+        this.runs.push(run);
+        this._runs.set(event.runId, run);
+      }
+      run.spans.push(span);
+    }
+    this._running.set(event.spanId, span);
+  }
+
+  end(event: TraceEndEvent): void {
+    const span = this._finish(event);
+    if (span !== undefined) {
+      span.status = "ok";
+      span.output = event.output;
+      span.duration = event.duration;
+    }
+  }
+
+  error(event: TraceErrorEvent): void {
+    const span = this._finish(event);
+    if (span !== undefined) {
+      span.status = "error";
+      span.error = event.error;
+      span.duration = event.duration;
+    }
+  }
+
+  private _finish(event: TraceEvent): TraceSpan | undefined {
+    const span = this._running.get(event.spanId);
+    this._running.delete(event.spanId);
+    return span;
+  }
+}
+
+type Step =
+  | { readonly kind: "value"; readonly value: unknown }
+  | {
+    readonly kind: "sync";
+    readonly label: string;
+    // Passes the value through, ignoring the result of f
+    readonly tap: boolean;
+    // Runs a chain within, taking the options of the run as the second argument
+    readonly nested: boolean;
+    readonly f: (value: unknown, options: RunOptions) => unknown;
+  }
+  | {
+    readonly kind: "async";
+    readonly label: string;
+    readonly timeout: number | undefined;
+    // Awaits the result only when it is a thenable
+    readonly maybe: boolean;
+    readonly f: (value: unknown, context: StepContext) => unknown;
+  }
+  | HandlerStep;
+
+// A step that runs depending on the outcome of the preceding steps, like catch and finally.
+type HandlerStep = {
+  readonly kind: "handler";
+  readonly label: string;
+  readonly isAsync: boolean;
+  readonly onFulfilled: ((value: unknown) => unknown) | undefined;
+  readonly onRejected: ((error: unknown) => unknown) | undefined;
+  // Limits the errors to handle with onRejected
+  readonly pred?: ErrorPredicate<unknown> | undefined;
+  // Also runs when the chain is aborted, like finally
+  readonly cleanup?: boolean | undefined;
+};
+
+// The steps of a chain, linked from the last one.
+// The preceding steps are shared with the chain it was built from, so that appending a step doesn't copy them.
+type StepList =
+  | {
+    readonly last: Step;
+    readonly rest: StepList;
+    readonly length: number;
+  }
+  | undefined;
+
+function append(list: StepList, step: Step): StepList {
+  return { last: step, rest: list, length: (list?.length ?? 0) + 1 };
+}
+
+function concat(list: StepList, other: StepList): StepList {
+  for (const step of compile(other).steps) {
+    list = append(list, step);
+  }
+  return list;
+}
+
+// The steps in the order of execution, computed once for each chain.
+type Pipeline = {
+  readonly steps: readonly Step[];
+  // Whether the steps can run with the fast path of runAsyncSteps
+  readonly isSimple: boolean;
+};
+
+const emptyPipeline: Pipeline = { steps: [], isSimple: false };
+const pipelines = new WeakMap<NonNullable<StepList>, Pipeline>();
+
+function compile(list: StepList): Pipeline {
+  if (list === undefined) {
+    return emptyPipeline;
+  }
+  let pipeline = pipelines.get(list);
+  if (pipeline === undefined) {
+    const steps: Step[] = new Array(list.length);
+    for (let node: StepList = list; node !== undefined; node = node.rest) {
+      steps[node.length - 1] = node.last;
+    }
+    const isSimple = list.last.kind === "async" && !list.last.maybe &&
+      steps.every((step, i) =>
+        i === steps.length - 1 || step.kind === "value" || step.kind === "sync"
+      );
+    pipeline = { steps, isSimple };
+    pipelines.set(list, pipeline);
+  }
+  return pipeline;
+}
+
+type ThunkConstructor<T, A = unknown> = new (
+  steps: StepList,
+) => Thunk<T, A>;
+
+// Reads the steps of a chain from either class, for composition.
+function stepsOf(
+  thunk: Thunk<unknown, never> | AsyncThunk<unknown, never>,
+): StepList {
+  return (thunk as unknown as { readonly _steps: StepList })._steps;
+}
+
+function syncStep(
+  f: (value: never) => unknown,
+  options: LabelOptions,
+  tap = false,
+): Step {
+  return {
+    kind: "sync",
+    label: options.label ?? f.name,
+    tap,
+    nested: false,
+    f: f as (value: unknown) => unknown,
+  };
+}
+
+// The step of Focus running its chain, so that the chain is traced and checked like the outer one.
+function nestedStep(
+  f: (value: never, options: RunOptions) => unknown,
+  label: string,
+): Step {
+  return {
+    kind: "sync",
+    label,
+    tap: false,
+    nested: true,
+    f: f as (value: unknown, options: RunOptions) => unknown,
+  };
+}
+
+function asyncStep(
+  f: (value: never, context: StepContext) => unknown,
+  options: StepOptions,
+  maybe = false,
+): Step {
+  const { limiter } = options;
+  return {
+    kind: "async",
+    label: options.label ?? f.name,
+    timeout: options.timeout,
+    maybe,
+    f: limiter === undefined
+      ? f as (value: unknown, context: StepContext) => unknown
+      : (value, context) =>
+        limiter.acquire(context.signal).then(async (release) => {
+          try {
+            return await f(value as never, context);
+          } finally {
+            release();
+          }
+        }),
+  };
+}
+
+function allStep(
+  branches: BranchFunctions<unknown>,
+  options: StepOptions,
+): Step {
+  const fs = Object.values(branches);
+  const labels = Array.isArray(branches)
+    ? fs.map((f) => f.name)
+    : Object.keys(branches);
+  return asyncStep((value: unknown, context) => {
+    // Aborted when the chain is aborted, or any of the branches has failed
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(context.signal.reason);
+    context.signal.addEventListener("abort", onAbort, { once: true });
+    const { tracer, clock, parentSpanId } = context;
+    const runId = tracer && nextRunId++;
+    return Promise.all(
+      fs.map((f, i) => {
+        // Each branch is traced as a span nested in the pipeAll step
+        const span = tracer &&
+          new Span(tracer, clock, runId!, parentSpanId, labels[i], i, value);
+        const branchContext = {
+          ...context,
+          signal: controller.signal,
+          parentSpanId: span?.id ?? parentSpanId,
+        };
+        return new Promise((resolve) => resolve(f(value, branchContext))).then(
+          (result) => {
+            span?.end(result);
+            return result;
+          },
+          (error) => {
+            span?.error(error);
+            controller.abort(error);
+            throw error;
+          },
+        );
+      }),
+    ).then((values) =>
+      Array.isArray(branches) ? values : Object.fromEntries(
+        Object.keys(branches).map((key, i) => [key, values[i]]),
+      )
+    ).finally(() => context.signal.removeEventListener("abort", onAbort));
+  }, { ...options, label: options.label ?? "pipeAll" });
+}
+
+function handlerOf(
+  handlers: { readonly [key: PropertyKey]: unknown },
+  key: PropertyKey,
+  value: unknown,
+): ((value: unknown, context?: StepContext) => unknown) | undefined {
+  const tag = (value as { readonly [key: PropertyKey]: unknown })[key];
+  return (typeof tag === "string" || typeof tag === "number" ||
+      typeof tag === "symbol") && Object.hasOwn(handlers, tag)
+    ? handlers[tag] as (value: unknown, context?: StepContext) => unknown
+    : undefined;
+}
+
+function catchStep(
+  pred: ErrorPredicate<unknown>,
+  handler: (error: never) => unknown,
+  isAsync: boolean,
+): HandlerStep {
+  return {
+    kind: "handler",
+    label: "catch",
+    isAsync,
+    onFulfilled: undefined,
+    onRejected: handler as (error: unknown) => unknown,
+    pred,
+  };
+}
+
+function tryStep(): HandlerStep {
+  return {
+    kind: "handler",
+    label: "try",
+    isAsync: false,
+    onFulfilled: (value) => new TryChain({ type: "Ok", value }),
+    onRejected: (error) => new TryChain({ type: "Err", error }),
+  };
+}
+
+function finallyStep(f: () => void): HandlerStep {
+  return {
+    kind: "handler",
+    label: "finally",
+    isAsync: false,
+    cleanup: true,
+    onFulfilled: (value) => {
+      f();
+      return value;
+    },
+    onRejected: (error) => {
+      f();
+      throw error;
+    },
+  };
+}
+
+function asyncFinallyStep(f: () => Promise<void>): HandlerStep {
+  return {
+    kind: "handler",
+    label: "finally",
+    isAsync: true,
+    cleanup: true,
+    onFulfilled: (value) => f().then(() => value),
+    onRejected: (error) => f().then(() => Promise.reject(error)),
+  };
+}
+
+// Chooses the function to run for the step, depending on whether the preceding steps have failed or the chain is aborted.
+function callbackOf(
+  step: Exclude<Step, { kind: "value" }>,
+  failed: boolean,
+  current: unknown,
+  aborted = false,
+): ((value: unknown) => unknown) | undefined {
+  if (step.kind !== "handler") {
+    return failed ? undefined : step.f as (value: unknown) => unknown;
+  } else if (aborted && !step.cleanup) {
+    // The abort is not an error to handle
+    return undefined;
+  } else if (!failed) {
+    return step.onFulfilled;
+  } else if (step.pred === undefined || isErrorOf(current, step.pred)) {
+    return step.onRejected;
+  }
+  return undefined;
+}
+
+// Replaces chainSignal in the arguments of rcallAwait.
+function withSignal<Args extends unknown[]>(
+  args: Args,
+  signal: AbortSignal,
+): Args {
+  return args.map((arg) => arg === chainSignal ? signal : arg) as Args;
+}
+
+function contextOf(options: RunOptions): StepContext {
+  return {
+    signal: options.signal ?? chainSignal,
+    deadline: options.deadline,
+    clock: options.clock ?? systemClock,
+    tracer: options.tracer,
+    strict: options.strict ?? false,
+    parentSpanId: options.parentSpanId,
+  };
+}
+
+const stepInfos = new WeakMap<object, StepInfo>();
+
+// Records the first step the error has been thrown from.
+function annotate(error: unknown, label: string, index: number): void {
+  if (
+    (typeof error === "object" || typeof error === "function") &&
+    error !== null && !stepInfos.has(error)
+  ) {
+    stepInfos.set(error, { label, index });
+  }
+}
+
+/**
+ * Finds the step the error has been thrown from.
+ *
+ * @param error the error thrown from a chain
+ * @returns the label and the index of the step, or `undefined` if the error is not from a step
+ *
+ * @example
+ *   ```typescript
+ *   try {
+ *     Do(input).pipe(parse, { label: "parse" }).pipe(validate).done();
+ *   } catch (e) {
+ *     console.error(`Failed at ${stepInfoOf(e)?.label}`, e);
+ *   }
+ *   ```
+ */
+export function stepInfoOf(error: unknown): StepInfo | undefined {
+  return (typeof error === "object" || typeof error === "function") &&
+      error !== null
+    ? stepInfos.get(error)
+    : undefined;
+}
+
+let nextRunId = 0;
+let nextSpanId = 0;
+
+// Reports the events of a step to the tracer.
+class Span {
+  readonly id: number = nextSpanId++;
+  private readonly _tracer: Tracer;
+  private readonly _clock: Clock;
+  private readonly _event: TraceEvent;
+  private readonly _start: number;
+
+  constructor(
+    tracer: Tracer,
+    clock: Clock,
+    runId: number,
+    parentSpanId: number | undefined,
+    label: string,
+    index: number,
+    input: unknown,
+  ) {
+    this._tracer = tracer;
+    this._clock = clock;
+    this._event = { runId, spanId: this.id, parentSpanId, label, index, input };
+    this._start = clock.now();
+    tracer.start?.(this._event);
+  }
+
+  end(output: unknown): void {
+    const duration = this._clock.now() - this._start;
+    this._tracer.end?.({ ...this._event, output, duration });
+  }
+
+  error(error: unknown): void {
+    const duration = this._clock.now() - this._start;
+    this._tracer.error?.({ ...this._event, error, duration });
+  }
 }
 
-type SyncStep = readonly [false, (x: unknown) => unknown];
-type AsyncStep = SyncStep | readonly [true, (x: unknown) => Promise<unknown>];
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null | undefined)?.then ===
+    "function";
+}
 
-type ThunkConstructor<T> = new (steps: readonly SyncStep[]) => Thunk<T>;
+// Gives the next value from the result of a synchronous step, checking it in the strict mode
+function nextOf(
+  step: Exclude<Step, { kind: "value" }>,
+  value: unknown,
+  result: unknown,
+  strict: boolean,
+): unknown {
+  if (strict && isThenable(result)) {
+    throw new TypeError(
+      `Step ${
+        step.label || "(anonymous)"
+      } returned a promise; try pipeAwait instead`,
+    );
+  }
+  return step.kind === "sync" && step.tap ? value : result;
+}
+
+function runSteps(
+  { steps }: Pipeline,
+  input: unknown,
+  options: TraceOptions,
+): unknown {
+  const { tracer, clock = systemClock, strict = false, parentSpanId } = options;
+  const runId = nextRunId++;
+  let failed = false;
+  let current = input;
+  let index = -1;
+  for (const step of steps) {
+    if (step.kind === "value") {
+      current = failed ? current : step.value;
+      continue;
+    }
+    index++;
+    const f = callbackOf(step, failed, current);
+    if (f === undefined) {
+      continue;
+    }
+    const span = tracer &&
+      new Span(tracer, clock, runId, parentSpanId, step.label, index, current);
+    try {
+      const result = step.kind === "sync" && step.nested
+        ? step.f(current, {
+          ...options,
+          parentSpanId: span?.id ?? parentSpanId,
+        })
+        : f(current);
+      current = nextOf(step, current, result, strict);
+      failed = false;
+    } catch (error) {
+      annotate(error, step.label, index);
+      span?.error(error);
+      current = error;
+      failed = true;
+      continue;
+    }
+    span?.end(current);
+  }
+  if (failed) {
+    throw current;
+  }
+  return current;
+}
+
+// Annotates the rejection aside, so that the promise is passed through without an additional await.
+function annotateRejection(result: unknown, label: string, index: number) {
+  if (result instanceof Promise) {
+    result.then(undefined, (error) => annotate(error, label, index));
+  }
+}
+
+function isTimed(step: Step, context: StepContext): boolean {
+  return step.kind === "async" &&
+    (step.timeout !== undefined || context.deadline !== undefined);
+}
+
+async function runTimedStep(
+  step: Extract<Step, { kind: "async" }>,
+  value: unknown,
+  context: StepContext,
+): Promise<unknown> {
+  const { clock } = context;
+  const start = clock.now();
+  const deadline = Math.min(
+    context.deadline ?? Infinity,
+    step.timeout !== undefined ? start + step.timeout : Infinity,
+  );
+  const error = new TimeoutError(step.label, Math.max(deadline - start, 0));
+  if (deadline <= start) {
+    throw error;
+  }
+  // Notify the step of both the timeout and the signal of the chain
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(context.signal.reason);
+  context.signal.addEventListener("abort", onAbort, { once: true });
+  const timer = new AbortController();
+  try {
+    const promise = step.f(value, {
+      ...context,
+      signal: controller.signal,
+      deadline,
+    });
+    const timeout = clock.sleep(deadline - start, timer.signal).then(() => {
+      throw error;
+    }, () => {});
+    // The late result of the step is ignored, including rejections
+    const race = Promise.race([promise, timeout]);
+    // Abort the step after the race is settled, so that it doesn't win by reacting to the signal
+    timeout.catch(() => controller.abort(error));
+    return await race;
+  } finally {
+    timer.abort();
+    context.signal.removeEventListener("abort", onAbort);
+  }
+}
+
+function runAsyncSteps(
+  { steps, isSimple }: Pipeline,
+  input: unknown,
+  options: RunOptions,
+): Promise<unknown> {
+  // Choose as few awaits as possible for consistency.
+  // Note: this is about side effect ordering, not performance.
+  //
+  // ```
+  // .pipe()     .pipe()     .pipe()      // => 0 awaits (synchronous)
+  // .pipe()     .pipe()     .pipeAwait() // => 1 awaits (reduce one extra await)
+  // .pipe()     .pipeAwait().pipe()      // => 2 awaits
+  // .pipe()     .pipeAwait().pipeAwait() // => 3 awaits
+  // .pipeAwait().pipe()     .pipe()      // => 2 awaits
+  // .pipeAwait().pipe()     .pipeAwait() // => 3 awaits
+  // .pipeAwait().pipeAwait().pipe()      // => 3 awaits
+  // .pipeAwait().pipeAwait().pipeAwait() // => 4 awaits
+  // ```
+
+  const context = contextOf(options);
+  const { tracer, strict = false } = options;
+  const isSimplePipeline = tracer === undefined && isSimple &&
+    !isTimed(steps[steps.length - 1], context);
+  if (isSimplePipeline) {
+    // Simple means only the last one is async; no additional await
+    // Minimal of 1 microtick (from the user-returned Promise)
+    const { signal } = context;
+    let current = input;
+    let index = -1;
+    for (const step of steps) {
+      if (signal.aborted) {
+        return Promise.reject(signal.reason);
+      }
+      if (step.kind === "value") {
+        current = step.value;
+        continue;
+      }
+      index++;
+      try {
+        if (step.kind === "async") {
+          current = step.f(current, context);
+          annotateRejection(current, step.label, index);
+        } else {
+          const { nested, f } = step as Extract<Step, { kind: "sync" }>;
+          current = nextOf(
+            step,
+            current,
+            nested
+              ? f(current, context)
+              : (f as (value: unknown) => unknown)(current),
+            strict,
+          );
+        }
+      } catch (error) {
+        annotate(error, step.label, index);
+        throw error;
+      }
+    }
+    return current as Promise<unknown>;
+  } else {
+    // Otherwise, we cannot reuse the user-returned Promise.
+    // Minimal of 1 + N microtick, where N is number of pipeAwaits.
+    return (async () => {
+      const { signal, clock } = context;
+      const runId = nextRunId++;
+      let failed = false;
+      let aborted = false;
+      let current = input;
+      let index = -1;
+      for (const step of steps) {
+        if (!aborted && signal.aborted) {
+          // Handled as an error from the preceding steps, so that finally stages run, but not catch or try
+          current = signal.reason;
+          failed = true;
+          aborted = true;
+        }
+        if (step.kind === "value") {
+          current = failed ? current : step.value;
+          continue;
+        }
+        index++;
+        const f = callbackOf(step, failed, current, aborted);
+        if (f === undefined) {
+          continue;
+        }
+        const span = tracer &&
+          new Span(
+            tracer,
+            clock,
+            runId,
+            context.parentSpanId,
+            step.label,
+            index,
+            current,
+          );
+        // The chains run within the step are nested in its span
+        const stepContext = span
+          ? { ...context, parentSpanId: span.id }
+          : context;
+        try {
+          if (step.kind === "sync" && step.nested) {
+            current = nextOf(
+              step,
+              current,
+              step.f(current, stepContext),
+              strict,
+            );
+          } else if (
+            step.kind === "sync" || (step.kind === "handler" && !step.isAsync)
+          ) {
+            current = nextOf(step, current, f(current), strict);
+          } else if (isTimed(step, stepContext)) {
+            current = await runTimedStep(
+              step as Extract<Step, { kind: "async" }>,
+              current,
+              stepContext,
+            );
+          } else if (step.kind === "async") {
+            const result = step.f(current, stepContext);
+            current = step.maybe && !isThenable(result) ? result : await result;
+          } else {
+            current = await f(current);
+          }
+          failed = false;
+        } catch (error) {
+          annotate(error, step.label, index);
+          span?.error(error);
+          current = error;
+          failed = true;
+          continue;
+        }
+        span?.end(current);
+      }
+      if (failed) {
+        throw current;
+      }
+      if (isThenable(current)) {
+        throw new Error(
+          "AsyncThunk: pipe callback returned a promise; try pipeAwait instead",
+        );
+      }
+      return current;
+    })();
+  }
+}
 
 /**
  * A builder for extended method chains.
  *
- * Use {@link Do} to initiate the chain.
+ * Use {@link Do} to initiate the chain, or {@link Flow} to initiate a reusable one taking the input of type `A`.
  */
-export class Thunk<out T> {
-  private readonly _steps: readonly SyncStep[];
+export class Thunk<out T, in A = unknown> {
+  private readonly _steps: StepList;
 
-  private constructor(steps: readonly SyncStep[]) {
+  private constructor(steps: StepList) {
     this._steps = steps;
   }
 
   /**
    * Concludes the method chain and executes it.
+   * @param options the options like `tracer`. See {@link TraceOptions}.
    * @returns the result of the method chain
    */
-  done(): T {
-    let current: unknown = undefined;
-    for (const [, f] of this._steps) {
-      current = f(current);
+  done(this: Thunk<T, undefined>, options: TraceOptions = {}): T {
+    return runSteps(compile(this._steps), undefined, options) as T;
+  }
+
+  /**
+   * Concludes the method chain and turns it into a function, which executes the chain each time it is called.
+   * @returns the function taking the input of the chain initiated by {@link Flow}, and optionally {@link TraceOptions}
+   *
+   * @example
+   *   ```typescript
+   *   const normalize = Flow<string>()
+   *     .pipe((it) => it.trim())
+   *     .pipe((it) => it.toLowerCase())
+   *     .build();
+   *   console.log(["  Foo", "BAR "].map(normalize)); // => ["foo", "bar"]
+   *   ```
+   */
+  build(): (input: A, options?: TraceOptions) => T {
+    const pipeline = compile(this._steps);
+    return (input, options = {}) => runSteps(pipeline, input, options) as T;
+  }
+
+  /**
+   * Appends the steps of another chain, usually the one initiated by {@link Flow}.
+   * @param flow the chain that takes the current value as its input
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const parseNumber = Flow<string>()
+   *     .pipe((it) => it.trim())
+   *     .pipe((it) => Number(it));
+   *   const result = Do(" 42 ")
+   *     .pipeFlow(parseNumber)
+   *     .pipe((it) => it * 2)
+   *     .done();
+   *   console.log(result); // => 84
+   *   ```
+   */
+  pipeFlow<U>(flow: Thunk<U, T>): Thunk<U, A>;
+  /**
+   * Appends the steps of another asynchronous chain, usually the one initiated by {@link Flow}.
+   * @param flow the chain that takes the current value as its input
+   * @returns next builder in the chain
+   */
+  pipeFlow<U>(flow: AsyncThunk<U, T>): AsyncThunk<U, A>;
+  pipeFlow<U>(
+    flow: Thunk<U, T> | AsyncThunk<U, T>,
+  ): Thunk<U, A> | AsyncThunk<U, A> {
+    if (flow instanceof Thunk) {
+      return new Thunk<U, A>(concat(this._steps, flow._steps));
     }
-    return current as T;
+    return new (AsyncThunk as AsyncThunkConstructor<U, A>)(
+      concat(this._steps, stepsOf(flow)),
+    );
   }
 
   /**
    * Pipeline operator, equivalent to `|>` as in Pipeline Operator Proposal.
    * @param f the right hand side of the pipeline operator. It is recommended that you use an arrow function with the parameter named `it`.
+   * @param options the options like `label`. See {@link LabelOptions}.
    * @returns next builder in the chain
    *
    * @example
@@ -59,14 +1157,15 @@ export class Thunk<out T> {
    *   console.log(result); // => 86
    *   ```
    */
-  pipe<U>(f: (value: T) => U): Thunk<U> {
-    return new Thunk([...this._steps, [false, f as (x: unknown) => unknown]]);
+  pipe<U>(f: (value: T) => U, options: LabelOptions = {}): Thunk<U, A> {
+    return new Thunk(append(this._steps, syncStep(f, options)));
   }
 
   /**
    * Pipeline operator, equivalent to `|>` as in Pipeline Operator Proposal, combined with `await`.
    *
-   * @param f the right hand side of the pipeline operator. It is recommended that you use an arrow function with the parameter named `it`.
+   * @param f the right hand side of the pipeline operator. It is recommended that you use an arrow function with the parameter named `it`. The second argument is {@link StepContext}.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
    * @returns next builder in the chain
    *
    * @example
@@ -78,11 +1177,68 @@ export class Thunk<out T> {
    *   console.log(result); // => 86
    *   ```
    */
-  pipeAwait<U>(f: (value: T) => Promise<U>): AsyncThunk<U> {
-    return new (AsyncThunk as AsyncThunkConstructor<U>)([...this._steps, [
-      true,
-      f as (x: unknown) => Promise<unknown>,
-    ]]);
+  pipeAwait<U>(
+    f: (value: T, context: StepContext) => Promise<U>,
+    options: StepOptions = {},
+  ): AsyncThunk<U, A> {
+    return new (AsyncThunk as AsyncThunkConstructor<U, A>)(
+      append(this._steps, asyncStep(f, options)),
+    );
+  }
+
+  /**
+   * Pipeline operator for the callbacks which may or may not return a promise.
+   *
+   * Unlike {@link Thunk.pipeAwait}, the result is awaited only when it is a thenable,
+   * so that the synchronous results don't take extra microticks.
+   *
+   * @param f the right hand side of the pipeline operator, returning either a value or a promise. The second argument is {@link StepContext}.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const user = await Do(id)
+   *     .pipeMaybeAwait((it) => cache.get(it) ?? fetchUser(it))
+   *     .done();
+   *   ```
+   */
+  pipeMaybeAwait<U>(
+    f: (value: T, context: StepContext) => U | PromiseLike<U>,
+    options: StepOptions = {},
+  ): AsyncThunk<U, A> {
+    return new (AsyncThunk as AsyncThunkConstructor<U, A>)(
+      append(this._steps, asyncStep(f, options, true)),
+    );
+  }
+
+  /**
+   * Pipeline operator combined with `await`, reusing the results for the same key. See {@link memoize}.
+   *
+   * The results and the pending calls are kept for each chain; give a `cache` to share them between chains.
+   *
+   * @param key the function to compute the cache key from the current value
+   * @param f the asynchronous function to memoize, which also receives {@link StepContext}
+   * @param options the options like `ttl`, `cache` and `label`. See {@link MemoStepOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const handle = Flow<Request>()
+   *     .pipe((it) => it.headers.get("x-tenant") ?? "default")
+   *     .memoAwait((it) => it, (it) => loadConfig(it), { ttl: 60_000 })
+   *     .build();
+   *   ```
+   */
+  memoAwait<K, U>(
+    key: (value: T) => K,
+    f: (value: T, context: StepContext) => Promise<U>,
+    options: MemoStepOptions<K, U> = {},
+  ): AsyncThunk<U, A> {
+    return this.pipeAwait(memoize(key, f, options), {
+      ...options,
+      label: options.label ?? f.name,
+    });
   }
 
   /**
@@ -105,14 +1261,14 @@ export class Thunk<out T> {
   rcall<Args extends unknown[], R, F extends (this: T, ...args: Args) => R>(
     f: F,
     ...args: Args
-  ): Thunk<R> {
-    return this.pipe((value) => f.call(value, ...args));
+  ): Thunk<R, A> {
+    return this.pipe((value) => f.call(value, ...args), { label: f.name });
   }
 
   /**
    * Call-this operator, equivalent to `~>` as in Call-this Operator Proposal, combined with `|> await %`.
    * @param f the right hand side of the call-this operator, like `f` in `e~>f(...args)`.
-   * @param args the arguments, like `...args` in `e~>f(...args)`.
+   * @param args the arguments, like `...args` in `e~>f(...args)`. {@link chainSignal} is replaced with the signal of the chain.
    * @returns next builder in the chain
    *
    * @example
@@ -130,13 +1286,17 @@ export class Thunk<out T> {
     Args extends unknown[],
     R,
     F extends (this: T, ...args: Args) => Promise<R>,
-  >(f: F, ...args: Args): AsyncThunk<R> {
-    return this.pipeAwait((value) => f.call(value, ...args));
+  >(f: F, ...args: Args): AsyncThunk<R, A> {
+    return this.pipeAwait(
+      (value, { signal }) => f.call(value, ...withSignal(args, signal)),
+      { label: f.name },
+    );
   }
 
   /**
    * The tap method as known as Object#tap in Ruby.
    * @param f the side-effect function
+   * @param options the options like `label`. See {@link LabelOptions}.
    * @returns next builder in the chain
    *
    * @example
@@ -147,16 +1307,14 @@ export class Thunk<out T> {
    *   .done();
    * console.log(result); // => 43
    */
-  tap(f: (value: T) => void): Thunk<T> {
-    return this.pipe((value) => {
-      f(value);
-      return value;
-    });
+  tap(f: (value: T) => void, options: LabelOptions = {}): Thunk<T, A> {
+    return new Thunk(append(this._steps, syncStep(f, options, true)));
   }
 
   /**
    * The tap method as known as Object#tap in Ruby, async version.
-   * @param f the asynchronous side-effect function
+   * @param f the asynchronous side-effect function, which also receives {@link StepContext}
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
    * @returns next builder in the chain
    *
    * @example
@@ -167,80 +1325,404 @@ export class Thunk<out T> {
    *   .done();
    * console.log(result); // => 43
    */
-  tapAwait(f: (value: T) => Promise<void>): AsyncThunk<T> {
-    return this.pipeAwait((value) => f(value).then(() => value));
+  tapAwait(
+    f: (value: T, context: StepContext) => Promise<void>,
+    options: StepOptions = {},
+  ): AsyncThunk<T, A> {
+    return this.pipeAwait(
+      (value, context) => f(value, context).then(() => value),
+      { ...options, label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Runs the branches at the same time on the current value, combining their results.
+   *
+   * When one of the branches fails, the others are notified through the signal of {@link StepContext},
+   * and the chain is rejected with the first error.
+   *
+   * @param branches the functions to run, in a tuple or in a record. They may also return a non-promise value.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain, with the results in the same shape as the branches
+   *
+   * @example
+   *   ```typescript
+   *   const page = await Do(userId)
+   *     .pipeAll({
+   *       user: (id, { signal }) => fetchUser(id, { signal }),
+   *       orders: (id, { signal }) => fetchOrders(id, { signal }),
+   *       prefs: (id) => loadPrefs(id),
+   *     })
+   *     .pipe(({ user, orders, prefs }) => render(user, orders, prefs))
+   *     .done();
+   *   ```
+   */
+  pipeAll<const Fs extends BranchFunctions<T>>(
+    branches: Fs,
+    options: StepOptions = {},
+  ): AsyncThunk<BranchResults<Fs>, A> {
+    return new (AsyncThunk as AsyncThunkConstructor<BranchResults<Fs>, A>)(
+      append(
+        this._steps,
+        allStep(branches as BranchFunctions<unknown>, options),
+      ),
+    );
+  }
+
+  /**
+   * Applies the function only when the value satisfies the predicate, like `if` without `else`.
+   *
+   * With a type guard, the function receives the narrowed value, and the other values are passed through.
+   *
+   * @param pred the condition to apply the function
+   * @param f the function to apply
+   * @param options the options like `label`. See {@link LabelOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const result = Do<string | number>(input)
+   *     .when((it) => typeof it === "string", (it) => Number(it))
+   *     .pipe((it) => it * 2) // it: number
+   *     .done();
+   *   ```
+   */
+  when<P extends (value: T) => boolean, U>(
+    pred: P,
+    f: (value: NarrowedBy<T, P>) => U,
+    options: LabelOptions = {},
+  ): Thunk<ExcludedBy<T, P> | U, A> {
+    return this.pipe(
+      (value) => pred(value) ? f(value as never) : value as ExcludedBy<T, P>,
+      { label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Applies the asynchronous function only when the value satisfies the predicate. See {@link Thunk.when}.
+   *
+   * @param pred the condition to apply the function
+   * @param f the asynchronous function to apply, which also receives {@link StepContext}
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain
+   */
+  whenAwait<P extends (value: T) => boolean, U>(
+    pred: P,
+    f: (value: NarrowedBy<T, P>, context: StepContext) => Promise<U>,
+    options: StepOptions = {},
+  ): AsyncThunk<ExcludedBy<T, P> | U, A> {
+    return this.pipeAwait<ExcludedBy<T, P> | U>(
+      (value, context) =>
+        pred(value)
+          ? f(value as never, context)
+          : Promise.resolve(value as ExcludedBy<T, P>),
+      { ...options, label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Applies the function only when the value does not satisfy the predicate, like `if (!pred)`.
+   *
+   * With a type guard, the function receives the values other than the guarded ones, which are passed through.
+   *
+   * @param pred the condition to skip the function
+   * @param f the function to apply
+   * @param options the options like `label`. See {@link LabelOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const date = Do<Date | string>(input)
+   *     .unless((it) => it instanceof Date, (it) => new Date(it))
+   *     .pipe((it) => it.toISOString()) // it: Date
+   *     .done();
+   *   ```
+   */
+  unless<P extends (value: T) => boolean, U>(
+    pred: P,
+    f: (value: ExcludedBy<T, P>) => U,
+    options: LabelOptions = {},
+  ): Thunk<NarrowedBy<T, P> | U, A> {
+    return this.pipe(
+      (value) => pred(value) ? value as NarrowedBy<T, P> : f(value as never),
+      { label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Applies the asynchronous function only when the value does not satisfy the predicate. See {@link Thunk.unless}.
+   *
+   * @param pred the condition to skip the function
+   * @param f the asynchronous function to apply, which also receives {@link StepContext}
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain
+   */
+  unlessAwait<P extends (value: T) => boolean, U>(
+    pred: P,
+    f: (value: ExcludedBy<T, P>, context: StepContext) => Promise<U>,
+    options: StepOptions = {},
+  ): AsyncThunk<NarrowedBy<T, P> | U, A> {
+    return this.pipeAwait<NarrowedBy<T, P> | U>(
+      (value, context) =>
+        pred(value)
+          ? Promise.resolve(value as NarrowedBy<T, P>)
+          : f(value as never, context),
+      { ...options, label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Switches on the discriminant of a union, like `switch (value[key])`.
+   *
+   * Each handler receives the variant narrowed by the discriminant.
+   * The variants without handlers are passed through.
+   *
+   * @param key the name of the discriminant property
+   * @param handlers the functions for each value of the discriminant. See {@link MatchHandlers}.
+   * @param options the options like `label`. See {@link LabelOptions}.
+   * @returns next builder in the chain, with the results of the handlers. See {@link MatchResult}.
+   *
+   * @example
+   *   ```typescript
+   *   type Event =
+   *     | { type: "click"; x: number; y: number }
+   *     | { type: "key"; key: string };
+   *   const description = Do<Event>(event)
+   *     .match("type", {
+   *       click: (it) => `Clicked at (${it.x}, ${it.y})`,
+   *       key: (it) => `Pressed ${it.key}`,
+   *     })
+   *     .done();
+   *   ```
+   */
+  match<K extends keyof T, H extends MatchHandlers<T, K>>(
+    key: K,
+    handlers: H,
+    options: LabelOptions = {},
+  ): Thunk<MatchResult<T, K, H>, A> {
+    return this.pipe((value) => {
+      const handler = handlerOf(handlers, key, value);
+      return (handler ? handler(value) : value) as MatchResult<
+        T,
+        K,
+        H
+      >;
+    }, { label: options.label ?? "match" });
+  }
+
+  /**
+   * Switches on the discriminant of a union, with asynchronous handlers. See {@link Thunk.match}.
+   *
+   * @param key the name of the discriminant property
+   * @param handlers the functions for each value of the discriminant, which also receive {@link StepContext}. They may also return a non-promise value.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain, with the results of the handlers. See {@link MatchResult}.
+   */
+  matchAwait<K extends keyof T, H extends MatchAwaitHandlers<T, K>>(
+    key: K,
+    handlers: H,
+    options: StepOptions = {},
+  ): AsyncThunk<Awaited<MatchResult<T, K, H>>, A> {
+    return this.pipeAwait((value, context) => {
+      const handler = handlerOf(handlers, key, value);
+      return Promise.resolve(
+        handler ? handler(value, context) : value,
+      ) as Promise<Awaited<MatchResult<T, K, H>>>;
+    }, { ...options, label: options.label ?? "matchAwait" });
+  }
+
+  /**
+   * Focuses on the value at the path, so that the following steps update it immutably. See {@link Focus}.
+   * @param path the property names and array indexes to follow. See {@link Path}.
+   * @returns the builder for the focused value
+   *
+   * @example
+   *   ```typescript
+   *   const next = Do(state)
+   *     .at("user", "address", "city")
+   *     .pipe((it) => it?.toUpperCase())
+   *     .done(); // A copy of state sharing everything but the path
+   *   ```
+   */
+  at<S, const P extends Path<S>>(
+    this: Thunk<S, A>,
+    ...path: P
+  ): Focus<S, ValueAt<S, P>, A> {
+    return new (Focus as FocusConstructor<S, ValueAt<S, P>, A>)(
+      this,
+      path,
+      Flow<ValueAt<S, P>>(),
+    );
+  }
+
+  /**
+   * Handles the errors thrown from the preceding steps, like the `catch` clause.
+   * @param pred the predicate to choose the errors to handle. Other errors are rethrown. See {@link ErrorPredicate}.
+   * @param handler the error handler, whose result replaces the value of the chain
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const url = Do(input)
+   *     .pipe((it) => new URL(it))
+   *     .catch(TypeError, () => new URL("http://default.example.com"))
+   *     .done();
+   *   ```
+   */
+  catch<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    handler: (error: MatchedError<P>) => U,
+  ): Thunk<T | U, A> {
+    return new Thunk(append(this._steps, catchStep(pred, handler, false)));
+  }
+
+  /**
+   * Handles the errors thrown from the preceding steps, like the `catch` clause, async version.
+   * @param pred the predicate to choose the errors to handle. Other errors are rethrown. See {@link ErrorPredicate}.
+   * @param handler the asynchronous error handler, whose result replaces the value of the chain
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const config = await Do(path)
+   *     .pipe((it) => Deno.readTextFileSync(it))
+   *     .catchAwait(Deno.errors.NotFound, () => fetchDefaultConfig())
+   *     .done();
+   *   ```
+   */
+  catchAwait<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    handler: (error: MatchedError<P>) => Promise<U>,
+  ): AsyncThunk<T | U, A> {
+    return new (AsyncThunk as AsyncThunkConstructor<T | U, A>)(
+      append(this._steps, catchStep(pred, handler, true)),
+    );
+  }
+
+  /**
+   * Captures the outcome of the preceding steps as a {@link TryChain}, so that it can be handled by the methods from exception.ts.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const status = Do(entity)
+   *     .pipe((it) => repository.save(it))
+   *     .try()
+   *     .pipe((it) => it.case(NotFoundError, () => 404).map(() => 200).done())
+   *     .done();
+   *   ```
+   */
+  try(): Thunk<TryChain<T, unknown>, A> {
+    return new Thunk(append(this._steps, tryStep()));
+  }
+
+  /**
+   * Runs the function after the preceding steps, whether they have thrown or not, like the `finally` clause.
+   * @param f the function to run
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const result = Do(connect())
+   *     .pipe((it) => it.query("SELECT 1"))
+   *     .finally(() => console.log("finished"))
+   *     .done();
+   *   ```
+   */
+  finally(f: () => void): Thunk<T, A> {
+    return new Thunk(append(this._steps, finallyStep(f)));
+  }
+
+  /**
+   * Runs the asynchronous function after the preceding steps, whether they have thrown or not, like the `finally` clause.
+   * @param f the asynchronous function to run
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const result = await Do(input)
+   *     .pipe((it) => JSON.parse(it))
+   *     .finallyAwait(() => logger.flush())
+   *     .done();
+   *   ```
+   */
+  finallyAwait(f: () => Promise<void>): AsyncThunk<T, A> {
+    return new (AsyncThunk as AsyncThunkConstructor<T, A>)(
+      append(this._steps, asyncFinallyStep(f)),
+    );
   }
 }
 
-type AsyncThunkConstructor<T> = new (
-  steps: readonly AsyncStep[],
-) => AsyncThunk<T>;
+type AsyncThunkConstructor<T, A = unknown> = new (
+  steps: StepList,
+) => AsyncThunk<T, A>;
 
 /**
  * An asynchronous variant of {@link Thunk}.
  *
- * Use {@link Do} to initiate the extended method chain.
+ * Use {@link Do} to initiate the extended method chain, or {@link Flow} to initiate a reusable one taking the input of type `A`.
  */
-export class AsyncThunk<T> {
-  private readonly _steps: readonly AsyncStep[];
+export class AsyncThunk<T, in A = unknown> {
+  private readonly _steps: StepList;
 
-  private constructor(steps: readonly AsyncStep[]) {
+  private constructor(steps: StepList) {
     this._steps = steps;
   }
 
   /**
    * Concludes the method chain and executes it.
+   * @param options the options like `signal`. See {@link RunOptions}.
    * @returns the result of the method chain
+   *
+   * @example
+   *   ```typescript
+   *   const user = await Do(id)
+   *     .pipeAwait((it, { signal }) => fetchUser(it, { signal }))
+   *     .pipeAwait((it, { signal }) => fetchProfile(it, { signal }))
+   *     .done({ signal: request.signal });
+   *   ```
+   */
+  done(
+    this: AsyncThunk<T, undefined>,
+    options: RunOptions = {},
+  ): Promise<T> {
+    return runAsyncSteps(compile(this._steps), undefined, options) as Promise<
+      T
+    >;
+  }
+
+  /**
+   * Concludes the method chain and turns it into an asynchronous function, which executes the chain each time it is called.
+   * @returns the function taking the input of the chain initiated by {@link Flow}, and optionally {@link RunOptions}
+   *
+   * @example
+   *   ```typescript
+   *   const loadUser = Flow<string>()
+   *     .pipeAwait((id) => fetchUser(id))
+   *     .pipe((user) => user.name)
+   *     .build();
+   *   console.log(await loadUser("42")); // => "Alice"
+   *   ```
+   */
+  build(): (input: A, options?: RunOptions) => Promise<T> {
+    const pipeline = compile(this._steps);
+    return (input, options = {}) =>
+      runAsyncSteps(pipeline, input, options) as Promise<T>;
+  }
+
+  /**
+   * Appends the steps of another chain, usually the one initiated by {@link Flow}.
+   * @param flow the chain that takes the current value as its input
+   * @returns next builder in the chain
    */
-  done(): Promise<T> {
-    // Choose as few awaits as possible for consistency.
-    // Note: this is about side effect ordering, not performance.
-    //
-    // ```
-    // .pipe()     .pipe()     .pipe()      // => 0 awaits (synchronous)
-    // .pipe()     .pipe()     .pipeAwait() // => 1 awaits (reduce one extra await)
-    // .pipe()     .pipeAwait().pipe()      // => 2 awaits
-    // .pipe()     .pipeAwait().pipeAwait() // => 3 awaits
-    // .pipeAwait().pipe()     .pipe()      // => 2 awaits
-    // .pipeAwait().pipe()     .pipeAwait() // => 3 awaits
-    // .pipeAwait().pipeAwait().pipe()      // => 3 awaits
-    // .pipeAwait().pipeAwait().pipeAwait() // => 4 awaits
-    // ```
-
-    const isSimplePipeline = this._steps.length >= 1 &&
-      this._steps[this._steps.length - 1][0] &&
-      this._steps.slice(0, this._steps.length - 1).every(([isAsync]) =>
-        !isAsync
-      );
-    if (isSimplePipeline) {
-      // Simple means only the last one is async; no additional await
-      // Minimal of 1 microtick (from the user-returned Promise)
-      let current: unknown = undefined;
-      for (const [, f] of this._steps) {
-        current = f(current);
-      }
-      return current as Promise<T>;
-    } else {
-      // Otherwise, we cannot reuse the user-returned Promise.
-      // Minimal of 1 + N microtick, where N is number of pipeAwaits.
-      return (async () => {
-        let current: unknown = undefined;
-        for (const [isAsync, f] of this._steps) {
-          current = isAsync ? await f(current) : f(current);
-        }
-        if (typeof (current as Promise<unknown>)?.then === "function") {
-          throw new Error(
-            "AsyncThunk: pipe callback returned a promise; try pipeAwait instead",
-          );
-        }
-        return current as T;
-      })();
-    }
+  pipeFlow<U>(flow: Thunk<U, T> | AsyncThunk<U, T>): AsyncThunk<U, A> {
+    return new AsyncThunk(concat(this._steps, stepsOf(flow)));
   }
 
   /**
    * Pipeline operator, equivalent to `|>` as in Pipeline Operator Proposal.
    * @param f the right hand side of the pipeline operator. It is recommended that you use an arrow function with the parameter named `it`.
+   * @param options the options like `label`. See {@link LabelOptions}.
    * @returns next builder in the chain
    *
    * @example
@@ -252,17 +1734,15 @@ export class AsyncThunk<T> {
    *   console.log(result); // => 86
    *   ```
    */
-  pipe<U>(f: (value: T) => U): AsyncThunk<U> {
-    return new AsyncThunk([...this._steps, [
-      false,
-      f as (x: unknown) => unknown,
-    ]]);
+  pipe<U>(f: (value: T) => U, options: LabelOptions = {}): AsyncThunk<U, A> {
+    return new AsyncThunk(append(this._steps, syncStep(f, options)));
   }
 
   /**
    * Pipeline operator, equivalent to `|>` as in Pipeline Operator Proposal, combined with `await`.
    *
-   * @param f the right hand side of the pipeline operator. It is recommended that you use an arrow function with the parameter named `it`.
+   * @param f the right hand side of the pipeline operator. It is recommended that you use an arrow function with the parameter named `it`. The second argument is {@link StepContext}.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
    * @returns next builder in the chain
    *
    * @example
@@ -274,11 +1754,66 @@ export class AsyncThunk<T> {
    *   console.log(result); // => 86
    *   ```
    */
-  pipeAwait<U>(f: (value: T) => Promise<U>): AsyncThunk<U> {
-    return new AsyncThunk([...this._steps, [
-      true,
-      f as (x: unknown) => Promise<unknown>,
-    ]]);
+  pipeAwait<U>(
+    f: (value: T, context: StepContext) => Promise<U>,
+    options: StepOptions = {},
+  ): AsyncThunk<U, A> {
+    return new AsyncThunk(append(this._steps, asyncStep(f, options)));
+  }
+
+  /**
+   * Pipeline operator for the callbacks which may or may not return a promise.
+   *
+   * Unlike {@link Thunk.pipeAwait}, the result is awaited only when it is a thenable,
+   * so that the synchronous results don't take extra microticks.
+   *
+   * @param f the right hand side of the pipeline operator, returning either a value or a promise. The second argument is {@link StepContext}.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const user = await Do(id)
+   *     .pipeMaybeAwait((it) => cache.get(it) ?? fetchUser(it))
+   *     .done();
+   *   ```
+   */
+  pipeMaybeAwait<U>(
+    f: (value: T, context: StepContext) => U | PromiseLike<U>,
+    options: StepOptions = {},
+  ): AsyncThunk<U, A> {
+    return new AsyncThunk(
+      append(this._steps, asyncStep(f, options, true)),
+    );
+  }
+
+  /**
+   * Pipeline operator combined with `await`, reusing the results for the same key. See {@link memoize}.
+   *
+   * The results and the pending calls are kept for each chain; give a `cache` to share them between chains.
+   *
+   * @param key the function to compute the cache key from the current value
+   * @param f the asynchronous function to memoize, which also receives {@link StepContext}
+   * @param options the options like `ttl`, `cache` and `label`. See {@link MemoStepOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const handle = Flow<Request>()
+   *     .pipe((it) => it.headers.get("x-tenant") ?? "default")
+   *     .memoAwait((it) => it, (it) => loadConfig(it), { ttl: 60_000 })
+   *     .build();
+   *   ```
+   */
+  memoAwait<K, U>(
+    key: (value: T) => K,
+    f: (value: T, context: StepContext) => Promise<U>,
+    options: MemoStepOptions<K, U> = {},
+  ): AsyncThunk<U, A> {
+    return this.pipeAwait(memoize(key, f, options), {
+      ...options,
+      label: options.label ?? f.name,
+    });
   }
 
   /**
@@ -302,14 +1837,14 @@ export class AsyncThunk<T> {
   rcall<Args extends unknown[], R, F extends (this: T, ...args: Args) => R>(
     f: F,
     ...args: Args
-  ): AsyncThunk<R> {
-    return this.pipe((value) => f.call(value, ...args));
+  ): AsyncThunk<R, A> {
+    return this.pipe((value) => f.call(value, ...args), { label: f.name });
   }
 
   /**
    * Call-this operator, equivalent to `~>` as in Call-this Operator Proposal, combined with `|> await %`.
    * @param f the right hand side of the call-this operator, like `f` in `e~>f(...args)`.
-   * @param args the arguments, like `...args` in `e~>f(...args)`.
+   * @param args the arguments, like `...args` in `e~>f(...args)`. {@link chainSignal} is replaced with the signal of the chain.
    * @returns next builder in the chain
    *
    * @example
@@ -328,13 +1863,17 @@ export class AsyncThunk<T> {
     Args extends unknown[],
     R,
     F extends (this: T, ...args: Args) => Promise<R>,
-  >(f: F, ...args: Args): AsyncThunk<R> {
-    return this.pipeAwait((value) => f.call(value, ...args));
+  >(f: F, ...args: Args): AsyncThunk<R, A> {
+    return this.pipeAwait(
+      (value, { signal }) => f.call(value, ...withSignal(args, signal)),
+      { label: f.name },
+    );
   }
 
   /**
    * The tap method as known as Object#tap in Ruby.
    * @param f the side-effect function
+   * @param options the options like `label`. See {@link LabelOptions}.
    * @returns next builder in the chain
    *
    * @example
@@ -345,16 +1884,14 @@ export class AsyncThunk<T> {
    *   .done();
    * console.log(result); // => 43
    */
-  tap(f: (value: T) => void): AsyncThunk<T> {
-    return this.pipe((value) => {
-      f(value);
-      return value;
-    });
+  tap(f: (value: T) => void, options: LabelOptions = {}): AsyncThunk<T, A> {
+    return new AsyncThunk(append(this._steps, syncStep(f, options, true)));
   }
 
   /**
    * The tap method as known as Object#tap in Ruby, async version.
-   * @param f the asynchronous side-effect function
+   * @param f the asynchronous side-effect function, which also receives {@link StepContext}
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
    * @returns next builder in the chain
    *
    * @example
@@ -365,7 +1902,654 @@ export class AsyncThunk<T> {
    *   .done();
    * console.log(result); // => 43
    */
-  tapAwait(f: (value: T) => Promise<void>): AsyncThunk<T> {
-    return this.pipeAwait((value) => f(value).then(() => value));
+  tapAwait(
+    f: (value: T, context: StepContext) => Promise<void>,
+    options: StepOptions = {},
+  ): AsyncThunk<T, A> {
+    return this.pipeAwait(
+      (value, context) => f(value, context).then(() => value),
+      { ...options, label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Runs the branches at the same time on the current value, combining their results.
+   *
+   * When one of the branches fails, the others are notified through the signal of {@link StepContext},
+   * and the chain is rejected with the first error.
+   *
+   * @param branches the functions to run, in a tuple or in a record. They may also return a non-promise value.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain, with the results in the same shape as the branches
+   *
+   * @example
+   *   ```typescript
+   *   const page = await Do(userId)
+   *     .pipeAll({
+   *       user: (id, { signal }) => fetchUser(id, { signal }),
+   *       orders: (id, { signal }) => fetchOrders(id, { signal }),
+   *       prefs: (id) => loadPrefs(id),
+   *     })
+   *     .pipe(({ user, orders, prefs }) => render(user, orders, prefs))
+   *     .done();
+   *   ```
+   */
+  pipeAll<const Fs extends BranchFunctions<T>>(
+    branches: Fs,
+    options: StepOptions = {},
+  ): AsyncThunk<BranchResults<Fs>, A> {
+    return new AsyncThunk(
+      append(
+        this._steps,
+        allStep(branches as BranchFunctions<unknown>, options),
+      ),
+    );
+  }
+
+  /**
+   * Applies the function only when the value satisfies the predicate, like `if` without `else`.
+   *
+   * With a type guard, the function receives the narrowed value, and the other values are passed through.
+   *
+   * @param pred the condition to apply the function
+   * @param f the function to apply
+   * @param options the options like `label`. See {@link LabelOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const result = Do<string | number>(input)
+   *     .when((it) => typeof it === "string", (it) => Number(it))
+   *     .pipe((it) => it * 2) // it: number
+   *     .done();
+   *   ```
+   */
+  when<P extends (value: T) => boolean, U>(
+    pred: P,
+    f: (value: NarrowedBy<T, P>) => U,
+    options: LabelOptions = {},
+  ): AsyncThunk<ExcludedBy<T, P> | U, A> {
+    return this.pipe(
+      (value) => pred(value) ? f(value as never) : value as ExcludedBy<T, P>,
+      { label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Applies the asynchronous function only when the value satisfies the predicate. See {@link Thunk.when}.
+   *
+   * @param pred the condition to apply the function
+   * @param f the asynchronous function to apply, which also receives {@link StepContext}
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain
+   */
+  whenAwait<P extends (value: T) => boolean, U>(
+    pred: P,
+    f: (value: NarrowedBy<T, P>, context: StepContext) => Promise<U>,
+    options: StepOptions = {},
+  ): AsyncThunk<ExcludedBy<T, P> | U, A> {
+    return this.pipeAwait<ExcludedBy<T, P> | U>(
+      (value, context) =>
+        pred(value)
+          ? f(value as never, context)
+          : Promise.resolve(value as ExcludedBy<T, P>),
+      { ...options, label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Applies the function only when the value does not satisfy the predicate, like `if (!pred)`.
+   *
+   * With a type guard, the function receives the values other than the guarded ones, which are passed through.
+   *
+   * @param pred the condition to skip the function
+   * @param f the function to apply
+   * @param options the options like `label`. See {@link LabelOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const date = Do<Date | string>(input)
+   *     .unless((it) => it instanceof Date, (it) => new Date(it))
+   *     .pipe((it) => it.toISOString()) // it: Date
+   *     .done();
+   *   ```
+   */
+  unless<P extends (value: T) => boolean, U>(
+    pred: P,
+    f: (value: ExcludedBy<T, P>) => U,
+    options: LabelOptions = {},
+  ): AsyncThunk<NarrowedBy<T, P> | U, A> {
+    return this.pipe(
+      (value) => pred(value) ? value as NarrowedBy<T, P> : f(value as never),
+      { label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Applies the asynchronous function only when the value does not satisfy the predicate. See {@link Thunk.unless}.
+   *
+   * @param pred the condition to skip the function
+   * @param f the asynchronous function to apply, which also receives {@link StepContext}
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain
+   */
+  unlessAwait<P extends (value: T) => boolean, U>(
+    pred: P,
+    f: (value: ExcludedBy<T, P>, context: StepContext) => Promise<U>,
+    options: StepOptions = {},
+  ): AsyncThunk<NarrowedBy<T, P> | U, A> {
+    return this.pipeAwait<NarrowedBy<T, P> | U>(
+      (value, context) =>
+        pred(value)
+          ? Promise.resolve(value as NarrowedBy<T, P>)
+          : f(value as never, context),
+      { ...options, label: options.label ?? f.name },
+    );
+  }
+
+  /**
+   * Switches on the discriminant of a union, like `switch (value[key])`.
+   *
+   * Each handler receives the variant narrowed by the discriminant.
+   * The variants without handlers are passed through.
+   *
+   * @param key the name of the discriminant property
+   * @param handlers the functions for each value of the discriminant. See {@link MatchHandlers}.
+   * @param options the options like `label`. See {@link LabelOptions}.
+   * @returns next builder in the chain, with the results of the handlers. See {@link MatchResult}.
+   *
+   * @example
+   *   ```typescript
+   *   type Event =
+   *     | { type: "click"; x: number; y: number }
+   *     | { type: "key"; key: string };
+   *   const description = Do<Event>(event)
+   *     .match("type", {
+   *       click: (it) => `Clicked at (${it.x}, ${it.y})`,
+   *       key: (it) => `Pressed ${it.key}`,
+   *     })
+   *     .done();
+   *   ```
+   */
+  match<K extends keyof T, H extends MatchHandlers<T, K>>(
+    key: K,
+    handlers: H,
+    options: LabelOptions = {},
+  ): AsyncThunk<MatchResult<T, K, H>, A> {
+    return this.pipe((value) => {
+      const handler = handlerOf(handlers, key, value);
+      return (handler ? handler(value) : value) as MatchResult<
+        T,
+        K,
+        H
+      >;
+    }, { label: options.label ?? "match" });
+  }
+
+  /**
+   * Switches on the discriminant of a union, with asynchronous handlers. See {@link Thunk.match}.
+   *
+   * @param key the name of the discriminant property
+   * @param handlers the functions for each value of the discriminant, which also receive {@link StepContext}. They may also return a non-promise value.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain, with the results of the handlers. See {@link MatchResult}.
+   */
+  matchAwait<K extends keyof T, H extends MatchAwaitHandlers<T, K>>(
+    key: K,
+    handlers: H,
+    options: StepOptions = {},
+  ): AsyncThunk<Awaited<MatchResult<T, K, H>>, A> {
+    return this.pipeAwait((value, context) => {
+      const handler = handlerOf(handlers, key, value);
+      return Promise.resolve(
+        handler ? handler(value, context) : value,
+      ) as Promise<Awaited<MatchResult<T, K, H>>>;
+    }, { ...options, label: options.label ?? "matchAwait" });
+  }
+
+  /**
+   * Focuses on the value at the path, so that the following steps update it immutably. See {@link Focus}.
+   * @param path the property names and array indexes to follow. See {@link Path}.
+   * @returns the builder for the focused value
+   *
+   * @example
+   *   ```typescript
+   *   const next = Do(state)
+   *     .at("user", "address", "city")
+   *     .pipe((it) => it?.toUpperCase())
+   *     .done(); // A copy of state sharing everything but the path
+   *   ```
+   */
+  at<S, const P extends Path<S>>(
+    this: AsyncThunk<S, A>,
+    ...path: P
+  ): AsyncFocus<S, ValueAt<S, P>, A> {
+    return new (AsyncFocus as AsyncFocusConstructor<S, ValueAt<S, P>, A>)(
+      this,
+      path,
+      Flow<ValueAt<S, P>>(),
+    );
+  }
+
+  /**
+   * Handles the errors thrown from the preceding steps, like the `catch` clause.
+   * @param pred the predicate to choose the errors to handle. Other errors are rethrown. See {@link ErrorPredicate}.
+   * @param handler the error handler, whose result replaces the value of the chain
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const user = await Do(id)
+   *     .pipeAwait((it) => fetchUser(it))
+   *     .catch({ status: 404 }, () => null)
+   *     .done();
+   *   ```
+   */
+  catch<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    handler: (error: MatchedError<P>) => U,
+  ): AsyncThunk<T | U, A> {
+    return new AsyncThunk(append(this._steps, catchStep(pred, handler, false)));
+  }
+
+  /**
+   * Handles the errors thrown from the preceding steps, like the `catch` clause, async version.
+   * @param pred the predicate to choose the errors to handle. Other errors are rethrown. See {@link ErrorPredicate}.
+   * @param handler the asynchronous error handler, whose result replaces the value of the chain
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const config = await Do(path)
+   *     .pipeAwait((it) => Deno.readTextFile(it))
+   *     .catchAwait(Deno.errors.NotFound, () => fetchDefaultConfig())
+   *     .done();
+   *   ```
+   */
+  catchAwait<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    handler: (error: MatchedError<P>) => Promise<U>,
+  ): AsyncThunk<T | U, A> {
+    return new AsyncThunk(append(this._steps, catchStep(pred, handler, true)));
+  }
+
+  /**
+   * Captures the outcome of the preceding steps as a {@link TryChain}, so that it can be handled by the methods from exception.ts.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const status = await Do(entity)
+   *     .pipeAwait((it) => repository.save(it))
+   *     .try()
+   *     .pipe((it) => it.case(NotFoundError, () => 404).map(() => 200).done())
+   *     .done();
+   *   ```
+   */
+  try(): AsyncThunk<TryChain<T, unknown>, A> {
+    return new AsyncThunk(append(this._steps, tryStep()));
+  }
+
+  /**
+   * Runs the function after the preceding steps, whether they have thrown or not, like the `finally` clause.
+   * @param f the function to run
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const result = await Do(url)
+   *     .pipeAwait((it) => fetch(it))
+   *     .finally(() => console.log("finished"))
+   *     .done();
+   *   ```
+   */
+  finally(f: () => void): AsyncThunk<T, A> {
+    return new AsyncThunk(append(this._steps, finallyStep(f)));
+  }
+
+  /**
+   * Runs the asynchronous function after the preceding steps, whether they have thrown or not, like the `finally` clause.
+   * @param f the asynchronous function to run
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const result = await Do(lock)
+   *     .pipeAwait((it) => it.acquire())
+   *     .pipe(() => update())
+   *     .finallyAwait(() => lock.release())
+   *     .done();
+   *   ```
+   */
+  finallyAwait(f: () => Promise<void>): AsyncThunk<T, A> {
+    return new AsyncThunk(append(this._steps, asyncFinallyStep(f)));
+  }
+}
+
+type FocusConstructor<S, T, A> = new (
+  chain: Thunk<S, A>,
+  path: readonly PathKey[],
+  flow: Thunk<T, T>,
+) => Focus<S, T, A>;
+
+/**
+ * A builder for the steps updating a part of the value of a chain, initiated by {@link Thunk.at}.
+ *
+ * The steps take the value at the path, and their result replaces it in an updated copy of the whole value.
+ * The copy shares everything but the path with the original value; see {@link updateIn} for details.
+ * The steps run with the options of the chain, like `tracer` and `strict`, and are traced within the span of the `at` step.
+ */
+export class Focus<S, T, in A = unknown> {
+  private readonly _chain: Thunk<S, A>;
+  private readonly _path: readonly PathKey[];
+  private readonly _flow: Thunk<T, T>;
+
+  private constructor(
+    chain: Thunk<S, A>,
+    path: readonly PathKey[],
+    flow: Thunk<T, T>,
+  ) {
+    this._chain = chain;
+    this._path = path;
+    this._flow = flow;
+  }
+
+  /**
+   * Concludes the method chain and executes it, updating the value at the path.
+   * @param options the options like `tracer`. See {@link TraceOptions}.
+   * @returns the updated copy of the value of the chain
+   */
+  done(this: Focus<S, T, undefined>, options: TraceOptions = {}): S {
+    return this.end().done(options);
+  }
+
+  /**
+   * Ends the focus and goes back to the chain over the whole value.
+   * @returns next builder in the chain, having the updated copy of the value
+   *
+   * @example
+   *   ```typescript
+   *   const summary = Do(state)
+   *     .at("user", "name")
+   *     .pipe((it) => it.trim())
+   *     .end()
+   *     .pipe((it) => summarize(it))
+   *     .done();
+   *   ```
+   */
+  end(): Thunk<S, A> {
+    const path = this._path;
+    const f = this._flow.build();
+    return new (Thunk as ThunkConstructor<S, A>)(
+      append(
+        stepsOf(this._chain),
+        nestedStep(
+          (value: S, options) =>
+            updateIn(
+              value,
+              path as never,
+              ((it: T) => f(it, options)) as never,
+            ),
+          "at",
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Updates the value at the path. See {@link Thunk.pipe}.
+   * @param f the function to compute the new value at the path from the current one
+   * @param options the options like `label`. See {@link LabelOptions}.
+   * @returns next builder in the chain
+   */
+  pipe(f: (value: T) => T, options: LabelOptions = {}): Focus<S, T, A> {
+    return new Focus(this._chain, this._path, this._flow.pipe(f, options));
+  }
+
+  /**
+   * Updates the value at the path asynchronously. See {@link Thunk.pipeAwait}.
+   * @param f the asynchronous function to compute the new value at the path from the current one. The second argument is {@link StepContext}.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain
+   */
+  pipeAwait(
+    f: (value: T, context: StepContext) => Promise<T>,
+    options: StepOptions = {},
+  ): AsyncFocus<S, T, A> {
+    return new (AsyncFocus as AsyncFocusConstructor<S, T, A>)(
+      this._chain,
+      this._path,
+      this._flow.pipeAwait(f, options),
+    );
+  }
+}
+
+type AsyncFocusConstructor<S, T, A> = new (
+  chain: Thunk<S, A> | AsyncThunk<S, A>,
+  path: readonly PathKey[],
+  flow: Thunk<T, T> | AsyncThunk<T, T>,
+) => AsyncFocus<S, T, A>;
+
+/**
+ * An asynchronous variant of {@link Focus}, initiated by {@link AsyncThunk.at}.
+ */
+export class AsyncFocus<S, T, in A = unknown> {
+  private readonly _chain: Thunk<S, A> | AsyncThunk<S, A>;
+  private readonly _path: readonly PathKey[];
+  private readonly _flow: Thunk<T, T> | AsyncThunk<T, T>;
+
+  private constructor(
+    chain: Thunk<S, A> | AsyncThunk<S, A>,
+    path: readonly PathKey[],
+    flow: Thunk<T, T> | AsyncThunk<T, T>,
+  ) {
+    this._chain = chain;
+    this._path = path;
+    this._flow = flow;
+  }
+
+  /**
+   * Concludes the method chain and executes it, updating the value at the path.
+   * @param options the options like `signal`. See {@link RunOptions}.
+   * @returns the updated copy of the value of the chain
+   */
+  done(
+    this: AsyncFocus<S, T, undefined>,
+    options: RunOptions = {},
+  ): Promise<S> {
+    return this.end().done(options);
+  }
+
+  /**
+   * Ends the focus and goes back to the chain over the whole value.
+   * @returns next builder in the chain, having the updated copy of the value
+   */
+  end(): AsyncThunk<S, A> {
+    const path = this._path;
+    // Both classes have the same methods; the chain is asynchronous anyway after the step
+    const chain = this._chain as Thunk<S, A>;
+    if (this._flow instanceof AsyncThunk) {
+      const f = this._flow.build();
+      return chain.pipeAwait(
+        (value, context) =>
+          updateInAsync(
+            value,
+            path as never,
+            ((it: T) => f(it, context)) as never,
+          ) as Promise<S>,
+        { label: "at" },
+      );
+    }
+    const f = this._flow.build();
+    return new (AsyncThunk as AsyncThunkConstructor<S, A>)(
+      append(
+        stepsOf(chain),
+        nestedStep(
+          (value: S, options) =>
+            updateIn(
+              value,
+              path as never,
+              ((it: T) => f(it, options)) as never,
+            ),
+          "at",
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Updates the value at the path. See {@link AsyncThunk.pipe}.
+   * @param f the function to compute the new value at the path from the current one
+   * @param options the options like `label`. See {@link LabelOptions}.
+   * @returns next builder in the chain
+   */
+  pipe(f: (value: T) => T, options: LabelOptions = {}): AsyncFocus<S, T, A> {
+    return new AsyncFocus(
+      this._chain,
+      this._path,
+      (this._flow as Thunk<T, T>).pipe(f, options),
+    );
+  }
+
+  /**
+   * Updates the value at the path asynchronously. See {@link AsyncThunk.pipeAwait}.
+   * @param f the asynchronous function to compute the new value at the path from the current one. The second argument is {@link StepContext}.
+   * @param options the options like `timeout` and `label`. See {@link StepOptions}.
+   * @returns next builder in the chain
+   */
+  pipeAwait(
+    f: (value: T, context: StepContext) => Promise<T>,
+    options: StepOptions = {},
+  ): AsyncFocus<S, T, A> {
+    return new AsyncFocus(
+      this._chain,
+      this._path,
+      this._flow.pipeAwait(f, options),
+    );
+  }
+}
+
+/**
+ * The names of the operators declared on both {@link Thunk} and {@link AsyncThunk}, to be defined by {@link defineOperator}.
+ */
+export type OperatorName =
+  & keyof Thunk<never, never>
+  & keyof AsyncThunk<never, never>;
+
+/**
+ * The arguments of the operator declared as a method of {@link Thunk}.
+ */
+export type OperatorArgs<K extends OperatorName> =
+  Thunk<never, never>[K] extends (...args: infer Args) => unknown ? Args
+    : never;
+
+/**
+ * Adds a custom operator to both {@link Thunk} and {@link AsyncThunk}, which appends a step built from its arguments.
+ *
+ * Declare the methods with declaration merging beforehand, so that the name is known to the type checker.
+ *
+ * Defining the same operator again with the same function does nothing, so that modules evaluated twice are fine.
+ * Otherwise, a name cannot be redefined, whether it is a built-in method or another operator, and a `TypeError` is thrown.
+ * Note that hot reloading creates another function; define the operators in a module not reloaded, or give the function from such a module.
+ *
+ * @param name the name of the method
+ * @param operator the function taking the arguments of the method and returning the step, like the callback of {@link Thunk.pipe}
+ *
+ * @example
+ *   ```typescript
+ *   import { defineOperator } from "jsr:@qnighy/metaflow/do";
+ *
+ *   declare module "jsr:@qnighy/metaflow/do" {
+ *     interface Thunk<out T, in A> {
+ *       validate<S>(schema: Schema<S>): Thunk<S, A>;
+ *     }
+ *     interface AsyncThunk<T, in A> {
+ *       validate<S>(schema: Schema<S>): AsyncThunk<S, A>;
+ *     }
+ *   }
+ *   defineOperator("validate", (schema: Schema<unknown>) => (it: unknown) => schema.parse(it));
+ *
+ *   const user = Do(json).pipe((it) => JSON.parse(it)).validate(userSchema).done();
+ *   ```
+ */
+export function defineOperator<K extends OperatorName>(
+  name: K,
+  operator: (...args: OperatorArgs<K>) => (value: never) => unknown,
+): void {
+  installOperator(name, operator, false, function (this, ...args) {
+    return this.pipe(operator(...args as OperatorArgs<K>), { label: name });
+  });
+}
+
+/**
+ * Adds a custom asynchronous operator to both {@link Thunk} and {@link AsyncThunk}, which appends an asynchronous step built from its arguments.
+ *
+ * See {@link defineOperator} for details, including redefinition. The operator turns the chain into {@link AsyncThunk}, so declare it to return `AsyncThunk` in both classes.
+ *
+ * @param name the name of the method
+ * @param operator the function taking the arguments of the method and returning the step, like the callback of {@link Thunk.pipeAwait}
+ *
+ * @example
+ *   ```typescript
+ *   declare module "jsr:@qnighy/metaflow/do" {
+ *     interface Thunk<out T, in A> {
+ *       cache(key: string): AsyncThunk<T, A>;
+ *     }
+ *     interface AsyncThunk<T, in A> {
+ *       cache(key: string): AsyncThunk<T, A>;
+ *     }
+ *   }
+ *   defineAwaitOperator("cache", (key: string) => async (it: unknown) => {
+ *     await kv.set([key], it);
+ *     return it;
+ *   });
+ *   ```
+ */
+export function defineAwaitOperator<K extends OperatorName>(
+  name: K,
+  operator: (
+    ...args: OperatorArgs<K>
+  ) => (value: never, context: StepContext) => Promise<unknown>,
+): void {
+  installOperator(name, operator, true, function (this, ...args) {
+    return this.pipeAwait(operator(...args as OperatorArgs<K>), {
+      label: name,
+    });
+  });
+}
+
+// The operators defined so far, to tell the repeated definitions from the conflicting ones
+const operators = new Map<string, { operator: unknown; isAsync: boolean }>();
+
+function installOperator(
+  name: string,
+  operator: unknown,
+  isAsync: boolean,
+  method: (
+    this: Thunk<never, unknown>,
+    ...args: unknown[]
+  ) => Thunk<unknown, unknown> | AsyncThunk<unknown, unknown>,
+): void {
+  const defined = operators.get(name);
+  if (
+    defined !== undefined && defined.operator === operator &&
+    defined.isAsync === isAsync
+  ) {
+    return;
+  }
+  for (const proto of [Thunk.prototype, AsyncThunk.prototype]) {
+    if (name in proto) {
+      throw new TypeError(`The operator ${name} is already defined`);
+    }
+  }
+  for (const proto of [Thunk.prototype, AsyncThunk.prototype]) {
+    // Operators only use the methods common to both classes
+    Object.defineProperty(proto, name, {
+      value: method,
+      writable: true,
+      configurable: true,
+    });
   }
+  operators.set(name, { operator, isAsync });
 }
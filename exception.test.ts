@@ -0,0 +1,808 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "jsr:@std/assert";
+import {
+  causeChain,
+  causedBy,
+  type Clock,
+  defineError,
+  findError,
+  isErrorOf,
+  RetryError,
+  type RetryEvent,
+  Throw,
+  Try,
+  TryAll,
+  TryAllAsync,
+  TryAsync,
+  type TryChain,
+  TryCollect,
+  TryCollectAsync,
+  TryEach,
+  TryEachAsync,
+  TryPartition,
+  TryPartitionAsync,
+  TryWith,
+  TryWithAsync,
+  walkErrors,
+} from "./exception.ts";
+
+Deno.test("TryAsync is lazy until concluded", async () => {
+  let calls = 0;
+  const chain = TryAsync(() => {
+    calls++;
+    return Promise.resolve(42);
+  }).map((it) => it + 1);
+  assertEquals(calls, 0);
+  assertEquals(await chain.done(), 43);
+  assertEquals(await chain.done(), 43);
+  assertEquals(calls, 2);
+});
+
+Deno.test("TryAsync catches both rejections and synchronous throws", async () => {
+  const rejected = await TryAsync(() => Promise.reject(new TypeError("a")))
+    .settle();
+  assertEquals(rejected.result.type, "Err");
+  const thrown = await TryAsync((): Promise<number> => {
+    throw new RangeError("b");
+  }).done((e) => (e as Error).message);
+  assertEquals(thrown, "b");
+});
+
+Deno.test("AsyncTryChain stages", async () => {
+  const log: string[] = [];
+  const result = await TryAsync((): Promise<number> =>
+    Promise.reject(new SyntaxError("bad"))
+  )
+    .tap((e) => log.push(`tap: ${(e as Error).message}`))
+    .tapAwait((e) => {
+      log.push(`tapAwait: ${(e as Error).message}`);
+      return Promise.resolve();
+    })
+    .pick(SyntaxError)
+    .caseAwait(SyntaxError, (sub) => Promise.resolve(sub.done(() => -1)))
+    .mapAwait((it) => Promise.resolve(it * 2))
+    .done();
+  assertEquals(result, -2);
+  assertEquals(log, ["tap: bad", "tapAwait: bad"]);
+});
+
+Deno.test("AsyncTryChain.pick rejects with unmatched errors", async () => {
+  const error = new TypeError("unexpected");
+  const rejected = await assertRejects(() =>
+    TryAsync(() => Promise.reject(error)).pick(SyntaxError).done(() => 0)
+  );
+  assertEquals(rejected, error);
+});
+
+Deno.test("AsyncTryChain.done accepts an asynchronous fallback", async () => {
+  const result = await TryAsync((): Promise<string> =>
+    Promise.reject(new Error("offline"))
+  )
+    .done((e) => Promise.resolve(`fallback: ${(e as Error).message}`));
+  assertEquals(result, "fallback: offline");
+});
+
+Deno.test("TryChain.wrap records the cause", () => {
+  const original = new TypeError("Invalid URL");
+  const forwarded = Try(() => Throw(original))
+    .wrap(TypeError, (options) => new Error("forwarded", options))
+    .done((e) => e as Error);
+  assertEquals(forwarded.cause, original);
+  const missing = Try(() => Throw(original))
+    .wrap(TypeError, () => new Error("missing"))
+    .done((e) => e as Error);
+  assertEquals(missing.cause, original);
+  const own = new Error("own", { cause: "kept" });
+  const kept = Try(() => Throw(original))
+    .wrap(TypeError, () => own)
+    .done((e) => e as Error);
+  assertEquals(kept.cause, "kept");
+});
+
+Deno.test("TryChain.wrap leaves unmatched errors untouched", () => {
+  const original = new RangeError("out of range");
+  const result = Try(() => Throw(original))
+    .wrap(TypeError, (options) => new Error("wrapped", options))
+    .result;
+  assertEquals(result.type === "Err" && result.error, original);
+});
+
+Deno.test("causeChain follows the causes and stops at cycles", () => {
+  const root = new Error("root");
+  const middle = new Error("middle", { cause: root });
+  const top = new Error("top", { cause: middle });
+  assertEquals([...causeChain(top)], [top, middle, root]);
+  root.cause = top;
+  assertEquals([...causeChain(top)], [top, middle, root]);
+  assertEquals([...causeChain("plain")], ["plain"]);
+});
+
+Deno.test("walkErrors visits causes and aggregated errors depth-first", () => {
+  const a = new Error("a");
+  const b = new Error("b", { cause: a });
+  const c = new SyntaxError("c");
+  const aggregate = new AggregateError([b, c], "aggregate", { cause: a });
+  const top = new Error("top", { cause: aggregate });
+  assertEquals([...walkErrors(top)], [top, aggregate, a, b, c]);
+});
+
+Deno.test("findError and causedBy search the error tree", () => {
+  const inner = new SyntaxError("inner");
+  const outer = new Error("outer", {
+    cause: new AggregateError([new TypeError("other"), inner]),
+  });
+  assertEquals(findError(outer, SyntaxError), inner);
+  assertEquals(findError(outer, RangeError), undefined);
+  const result = Try(() => Throw(outer))
+    .pick(causedBy(SyntaxError))
+    .done(() => "handled");
+  assertEquals(result, "handled");
+  assertThrows(() => Try(() => Throw(outer)).pick(causedBy(RangeError)).done());
+});
+
+Deno.test("TryChain.finally runs at its position in the chain", () => {
+  const log: string[] = [];
+  const result = Try(() => Throw(new SyntaxError("bad")))
+    .finally(() => log.push("cleanup"))
+    .pick(SyntaxError)
+    .done(() => "handled");
+  assertEquals(result, "handled");
+  assertEquals(log, ["cleanup"]);
+});
+
+Deno.test("AsyncTryChain.finally runs when a preceding stage rethrows", async () => {
+  const log: string[] = [];
+  const error = new TypeError("unexpected");
+  const rejected = await assertRejects(() =>
+    TryAsync(() => Promise.reject(error))
+      .pick(SyntaxError)
+      .finally(() => log.push("finally"))
+      .finallyAwait(() => {
+        log.push("finallyAwait");
+        return Promise.resolve();
+      })
+      .done()
+  );
+  assertEquals(rejected, error);
+  assertEquals(log, ["finally", "finallyAwait"]);
+});
+
+Deno.test("AsyncTryChain.finally replaces the outcome when it throws", async () => {
+  const cleanupError = new Error("cleanup failed");
+  const rejected = await assertRejects(() =>
+    TryAsync(() => Promise.resolve(42))
+      .finally(() => Throw(cleanupError))
+      .done()
+  );
+  assertEquals(rejected, cleanupError);
+});
+
+Deno.test("TryWith disposes the resource after the function", () => {
+  const log: string[] = [];
+  const resource = { [Symbol.dispose]: () => log.push("dispose") };
+  const result = TryWith(resource, () => {
+    log.push("use");
+    return 42;
+  }).done();
+  assertEquals(result, 42);
+  assertEquals(log, ["use", "dispose"]);
+
+  const error = new SyntaxError("bad");
+  const failed = TryWith(resource, () => Throw(error)).done((e) => e);
+  assertEquals(failed, error);
+  assertEquals(log, ["use", "dispose", "dispose"]);
+
+  assertEquals(TryWith(null, () => 1).done(), 1);
+  assertThrows(() => TryWith({} as Disposable, () => 1), TypeError);
+});
+
+Deno.test("TryWith combines the errors of the function and the disposal", () => {
+  const original = new SyntaxError("bad");
+  const disposal = new Error("dispose failed");
+  const resource = { [Symbol.dispose]: () => Throw(disposal) };
+  assertEquals(TryWith(resource, () => 1).done((e) => e), disposal);
+  const error = TryWith(resource, () => Throw(original)).done((e) =>
+    e as SuppressedError
+  );
+  assert(error instanceof Error);
+  assertEquals(error.name, "SuppressedError");
+  assertEquals(error.error, disposal);
+  assertEquals(error.suppressed, original);
+  assertEquals([...walkErrors(error)], [error, disposal, original]);
+});
+
+Deno.test("TryWithAsync acquires lazily and prefers Symbol.asyncDispose", async () => {
+  const log: string[] = [];
+  const chain = TryWithAsync(() => {
+    log.push("acquire");
+    return {
+      [Symbol.asyncDispose]: async () => {
+        await Promise.resolve();
+        log.push("asyncDispose");
+      },
+      [Symbol.dispose]: () => log.push("dispose"),
+    };
+  }, () => {
+    log.push("use");
+    return Promise.resolve(42);
+  });
+  assertEquals(log, []);
+  assertEquals(await chain.done(), 42);
+  assertEquals(log, ["acquire", "use", "asyncDispose"]);
+
+  const error = new Error("acquire failed");
+  assertEquals(
+    await TryWithAsync(() => Throw(error), () => Promise.resolve(1))
+      .done((e) => e),
+    error,
+  );
+});
+
+Deno.test("TryWithAsync reports a resource that is not disposable", async () => {
+  let used = false;
+  const result = await TryWithAsync(
+    () => ({}) as Disposable,
+    () => {
+      used = true;
+      return Promise.resolve(1);
+    },
+  ).settle();
+  assert(result.result.type === "Err");
+  assert(result.result.error instanceof TypeError);
+  assertEquals(result.result.error.message, "The resource is not disposable");
+  assertEquals(used, false);
+});
+
+Deno.test("Error patterns match fields by value", () => {
+  const error = Object.assign(new Error("No such file"), {
+    code: "ENOENT",
+    errno: -2,
+  });
+  assert(isErrorOf(error, { code: "ENOENT" }));
+  assert(isErrorOf(error, { code: "ENOENT", errno: -2 }));
+  assert(!isErrorOf(error, { code: "EACCES" }));
+  assert(!isErrorOf(error, { code: "ENOENT", missing: "field" }));
+  assert(isErrorOf(error, { missing: undefined }));
+  assert(!isErrorOf("ENOENT", { code: "ENOENT" }));
+  assert(!isErrorOf(null, { code: "ENOENT" }));
+});
+
+Deno.test("Error patterns match nested fields and prototype getters", () => {
+  const error = Object.assign(new Error("Not found"), {
+    response: { status: 404, headers: { retry: "no" } },
+  });
+  assert(isErrorOf(error, { response: { status: 404 } }));
+  assert(isErrorOf(error, { response: { headers: { retry: "no" } } }));
+  assert(!isErrorOf(error, { response: { status: 500 } }));
+  assert(!isErrorOf(new Error(), { response: { status: 404 } }));
+  assert(isErrorOf(new DOMException("gone", "AbortError"), {
+    name: "AbortError",
+  }));
+});
+
+Deno.test("Error patterns match strings with regular expressions", () => {
+  const error = new Error("Request timed out after 30s");
+  assert(isErrorOf(error, { message: /timed out/ }));
+  assert(!isErrorOf(error, { message: /^timed out/ }));
+  assert(
+    !isErrorOf(Object.assign(new Error(), { message: 42 }), {
+      message: /42/,
+    }),
+  );
+  // Stateful regular expressions give the same answer every time
+  const global = /timed out/g;
+  const sticky = /Request/y;
+  for (let i = 0; i < 3; i++) {
+    assert(isErrorOf(error, { message: global }));
+    assert(isErrorOf(error, { message: sticky }));
+  }
+});
+
+Deno.test("Error patterns work in pick and in unions", () => {
+  const error = Object.assign(new Error("busy"), { code: "EBUSY" });
+  const result = Try(() => Throw(error))
+    .pick([SyntaxError, { code: "EBUSY" }])
+    .case({ code: "EBUSY" }, (sub) => sub.done((e) => e.code))
+    .done(() => "other");
+  assertEquals(result, "EBUSY");
+  assertThrows(() => Try(() => Throw(error)).pick({ code: "ENOENT" }).done());
+});
+
+class NotFoundError extends Error {
+  readonly kind = "notFound";
+}
+class ConflictError extends Error {
+  readonly kind = "conflict";
+}
+
+function save(error: Error | undefined): number {
+  return error ? Throw(error) : 200;
+}
+
+Deno.test("TryChain.case narrows the error type of the chain", () => {
+  const picked = Try(() => save(new ConflictError()))
+    .pick([NotFoundError, ConflictError]);
+  const rest: TryChain<number | string, ConflictError> = picked.case(
+    NotFoundError,
+    (sub) => sub.done((e) => e.kind),
+  );
+  const handled: TryChain<number | string, never> = rest.case(
+    ConflictError,
+    (sub) => sub.done((e) => e.kind),
+  );
+  assertEquals(handled.exhaustive(), "conflict");
+});
+
+Deno.test("TryChain.case passes through Ok values and unmatched errors", () => {
+  const ok = Try(() => save(undefined))
+    .case(NotFoundError, () => 404)
+    .done();
+  assertEquals(ok, 200);
+  const error = new ConflictError();
+  const unmatched = Try(() => save(error))
+    .case(NotFoundError, () => 404)
+    .done((e) => e);
+  assertEquals(unmatched, error);
+});
+
+Deno.test("TryChain.exhaustive rethrows undeclared errors", () => {
+  const error = new TypeError("undeclared");
+  const chain = Try(() => save(error))
+    // An overly broad guard declares fewer errors than it lets through
+    .pick((e): e is NotFoundError | ConflictError => e instanceof Error)
+    .case(NotFoundError, () => 404)
+    .case(ConflictError, () => 409);
+  assertThrows(() => chain.exhaustive(), TypeError);
+  const partial = Try(() => save(undefined))
+    .pick([NotFoundError, ConflictError])
+    .case(NotFoundError, () => 404);
+  // @ts-expect-error: ConflictError is not handled
+  assertEquals(partial.exhaustive(), 200);
+});
+
+Deno.test("AsyncTryChain.case and exhaustive", async () => {
+  const status = await TryAsync(() => Promise.reject(new NotFoundError()))
+    .pick([NotFoundError, ConflictError])
+    .case(NotFoundError, () => 404)
+    .caseAwait(ConflictError, () => Promise.resolve(409))
+    .exhaustive();
+  assertEquals(status, 404);
+});
+
+Deno.test("TryAll combines tuples and records, failing fast", () => {
+  const tuple: [number, string] = TryAll([() => 1, () => "a"]).done();
+  assertEquals(tuple, [1, "a"]);
+  const record: { host: string; port: number } = TryAll({
+    host: () => "localhost",
+    port: () => 8080,
+  }).done();
+  assertEquals(record, { host: "localhost", port: 8080 });
+
+  const log: string[] = [];
+  const error = new SyntaxError("first");
+  const failed = TryAll([
+    () => log.push("a"),
+    () => Throw(error),
+    () => log.push("c"),
+  ]).done((e) => e);
+  assertEquals(failed, error);
+  assertEquals(log, ["a"]);
+});
+
+Deno.test("TryCollect aggregates all the errors", () => {
+  const a = new SyntaxError("a");
+  const b = new RangeError("b");
+  const error = TryCollect({
+    x: () => Throw(a),
+    y: () => 1,
+    z: () => Throw(b),
+  }).done((e) => e);
+  assert(error instanceof AggregateError);
+  assertEquals(error.errors, [a, b]);
+  assertEquals(error.message, "2 of 3 computations failed");
+  assertEquals(TryCollect({ x: () => 1, y: () => 2 }).done(), { x: 1, y: 2 });
+});
+
+Deno.test("TryPartition separates values and errors in order", () => {
+  const a = new SyntaxError("a");
+  const b = new RangeError("b");
+  const partitioned = TryPartition([
+    () => 1,
+    () => Throw(a),
+    () => 2,
+    () => Throw(b),
+  ]);
+  assertEquals(partitioned, { ok: [1, 2], err: [a, b] });
+});
+
+Deno.test("TryPartition gives the union of the values", () => {
+  const tuple = TryPartition([() => 1, () => "a"]).ok;
+  const record = TryPartition({ x: () => 1, y: () => "a" }).ok;
+  const exact: [
+    Equals<typeof tuple, (number | string)[]>,
+    Equals<typeof record, (number | string)[]>,
+  ] = [true, true];
+  assertEquals(exact, [true, true]);
+  assertEquals(tuple, [1, "a"]);
+  assertEquals(record, [1, "a"]);
+});
+
+Deno.test("TryAllAsync runs concurrently and fails with the first rejection", async () => {
+  const log: string[] = [];
+  const chain = TryAllAsync({
+    a: async () => {
+      log.push("a start");
+      await Promise.resolve();
+      log.push("a end");
+      return 1;
+    },
+    b: () => {
+      log.push("b start");
+      return Promise.resolve("b");
+    },
+  });
+  assertEquals(log, []);
+  assertEquals(await chain.done(), { a: 1, b: "b" });
+  assertEquals(log, ["a start", "b start", "a end"]);
+
+  const error = new SyntaxError("fail");
+  const failed = await TryAllAsync([
+    () => Promise.reject(error),
+    () => Promise.resolve(1),
+  ]).done((e) => e);
+  assertEquals(failed, error);
+});
+
+Deno.test("TryCollectAsync and TryPartitionAsync wait for all the functions", async () => {
+  const a = new SyntaxError("a");
+  const { result } = await TryCollectAsync([
+    () => Promise.reject(a),
+    () => Promise.resolve(1),
+  ]).settle();
+  assert(result.type === "Err");
+  assertEquals(result.error.errors, [a]);
+  const partitioned = await TryPartitionAsync([
+    () => Promise.resolve(1),
+    () => Promise.reject(a),
+    () => Promise.resolve(2),
+  ]);
+  assertEquals(partitioned, { ok: [1, 2], err: [a] });
+});
+
+type Equals<A, B> = (<X>() => X extends A ? 1 : 2) extends
+  (<X>() => X extends B ? 1 : 2) ? true : false;
+
+// Sleeps by advancing the time immediately
+class SkippingClock implements Clock {
+  private _now = 0;
+  readonly sleeps: number[] = [];
+
+  now(): number {
+    return this._now;
+  }
+
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    this.sleeps.push(ms);
+    this._now += ms;
+    return Promise.resolve();
+  }
+}
+
+function failingTimes(times: number): () => Promise<string> {
+  let attempt = 0;
+  return () => {
+    attempt++;
+    return attempt <= times
+      ? Promise.reject(new Error(`attempt ${attempt}`))
+      : Promise.resolve(`succeeded at ${attempt}`);
+  };
+}
+
+Deno.test("retry backs off exponentially up to maxDelay", async () => {
+  const clock = new SkippingClock();
+  const result = await TryAsync(failingTimes(4))
+    .retry({ maxAttempts: 5, maxDelay: 500, jitter: 0, clock })
+    .done();
+  assertEquals(result, "succeeded at 5");
+  assertEquals(clock.sleeps, [100, 200, 400, 500]);
+});
+
+Deno.test("retry randomizes the delay by jitter", async () => {
+  const clock = new SkippingClock();
+  await TryAsync(failingTimes(2))
+    .retry({ jitter: 0.5, random: () => 0.5, clock })
+    .done();
+  assertEquals(clock.sleeps, [75, 150]);
+});
+
+Deno.test("retry reports each retry to onRetry", async () => {
+  const clock = new SkippingClock();
+  const events: RetryEvent[] = [];
+  await TryAsync(failingTimes(2))
+    .retry({ jitter: 0, clock, onRetry: (event) => events.push(event) })
+    .done();
+  assertEquals(
+    events.map(({ error, attempt, delay }) => [
+      (error as Error).message,
+      attempt,
+      delay,
+    ]),
+    [["attempt 1", 1, 100], ["attempt 2", 2, 200]],
+  );
+});
+
+Deno.test("retry does not start a retry past the deadline", async () => {
+  const clock = new SkippingClock();
+  const { result } = await TryAsync(failingTimes(5))
+    .retry({ maxAttempts: 10, jitter: 0, deadline: 350, clock })
+    .settle();
+  // 100 + 200 fits in the deadline, but another 400 does not
+  assertEquals(clock.sleeps, [100, 200]);
+  assert(result.type === "Err");
+  assertEquals(result.error.errors.length, 3);
+});
+
+Deno.test("retry fails with RetryError when the attempts run out", async () => {
+  const clock = new SkippingClock();
+  const { result } = await TryAsync(failingTimes(5))
+    .retry({ maxAttempts: 3, clock })
+    .settle();
+  assert(result.type === "Err");
+  const exhausted = result.error;
+  assert(exhausted instanceof RetryError);
+  assertEquals(exhausted.message, "Failed after 3 attempts");
+  assertEquals(
+    exhausted.errors.map((e) => (e as Error).message),
+    ["attempt 1", "attempt 2", "attempt 3"],
+  );
+  assertEquals((exhausted.cause as Error).message, "attempt 3");
+
+  const error = new SyntaxError("not retried");
+  const picked = await TryAsync(() => Promise.reject(error))
+    .retry({ maxAttempts: 1, clock })
+    .pick(causedBy(SyntaxError))
+    .done(() => "handled");
+  assertEquals(picked, "handled");
+});
+
+Deno.test("retry passes through the errors not matching when", async () => {
+  const clock = new SkippingClock();
+  const error = new SyntaxError("not retried");
+  const unmatched = await TryAsync(() => Promise.reject(error))
+    .retry({ when: TypeError, clock })
+    .pick(SyntaxError)
+    .done((e) => e);
+  assertEquals(unmatched, error);
+  assertEquals(clock.sleeps, []);
+
+  // After a retry
+  let attempts = 0;
+  const { result } = await TryAsync(() =>
+    Promise.reject(++attempts === 1 ? new TypeError("retried") : error)
+  )
+    .retry({ when: TypeError, clock })
+    .settle();
+  assertEquals(result, { type: "Err", error });
+  assertEquals(attempts, 2);
+});
+
+Deno.test("retry is rejected with the abort reason", async () => {
+  const clock = new SkippingClock();
+  const controller = new AbortController();
+  const reason = new Error("stopped");
+  let attempts = 0;
+  const rejected = await assertRejects(() =>
+    TryAsync(() => {
+      attempts++;
+      return Promise.reject(new Error("fail"));
+    })
+      .retry({
+        clock,
+        signal: controller.signal,
+        onRetry: () => controller.abort(reason),
+      })
+      .done(() => "not handled")
+  );
+  assertEquals(rejected, reason);
+  assertEquals(attempts, 1);
+  await assertRejects(
+    () =>
+      TryAsync(() => Promise.resolve(1))
+        .retry({ signal: controller.signal, clock })
+        .done(),
+    Error,
+    "stopped",
+  );
+});
+
+const MissingError = defineError(
+  "MissingError",
+  (fields: { resource: string }) => `${fields.resource} not found`,
+);
+
+Deno.test("defineError creates error classes with typed fields", () => {
+  const cause = new TypeError("lookup failed");
+  const error = new MissingError({ resource: "user" }, { cause });
+  assert(error instanceof Error);
+  assert(error instanceof MissingError);
+  assertEquals(error.name, "MissingError");
+  assertEquals(error.message, "user not found");
+  assertEquals(error.resource, "user");
+  assertEquals(error.cause, cause);
+  assertEquals(MissingError.name, "MissingError");
+  assertEquals(Object.keys(error), ["resource"]);
+
+  const Bare = defineError("Bare");
+  assertEquals(new Bare().message, "");
+});
+
+Deno.test("defineError classes work as predicates", () => {
+  const result = Try(() => Throw(new MissingError({ resource: "post" })))
+    .pick(MissingError)
+    .done((e) => e.resource);
+  assertEquals(result, "post");
+  assert(!MissingError.is(new Error("MissingError")));
+  assert(!(new TypeError() instanceof MissingError));
+  assert(!MissingError.is(null));
+});
+
+Deno.test("defineError classes of the same name are kept apart within a realm", async () => {
+  const copy = await import("./exception.ts?copy");
+  assert(copy.defineError !== defineError);
+  const CopiedMissingError = copy.defineError(
+    "MissingError",
+    (fields: { resource: string }) => `${fields.resource} not found`,
+  );
+  const copied: Error = new CopiedMissingError({ resource: "user" });
+  assert(!MissingError.is(copied));
+  assert(!(copied instanceof MissingError));
+  assert(!isErrorOf(copied, MissingError));
+  const Redefined = defineError("MissingError");
+  assert(!(new Redefined() instanceof MissingError));
+  assert(!Redefined.is(new MissingError({ resource: "user" })));
+});
+
+Deno.test("defineError classes recognize their errors from other realms by name", () => {
+  // What an error from another realm looks like: the brand without the Error of this realm
+  const brand = Symbol.for("@qnighy/metaflow/exception#defineError");
+  const foreignError = (name: string) =>
+    Object.create(
+      Object.create(Object.prototype, { [brand]: { value: name } }),
+    );
+  assert(MissingError.is(foreignError("MissingError")));
+  assert(!MissingError.is(foreignError("OtherError")));
+  // instanceof stays as usual
+  assert(!(foreignError("MissingError") instanceof MissingError));
+});
+
+Deno.test("isErrorOf tells classes from guard functions", () => {
+  class Failure {
+    readonly reason = "failure";
+  }
+  assert(isErrorOf(new Failure(), Failure));
+  assert(!isErrorOf(new Error("failure"), Failure));
+  function isFailure(e: unknown): e is Failure {
+    return (e as Failure | null)?.reason === "failure";
+  }
+  assert(isErrorOf({ reason: "failure" }, isFailure));
+  assert(isErrorOf({ reason: "failure" }, (e) => isFailure(e)));
+  assert(isErrorOf(new RangeError("range"), RangeError));
+});
+
+Deno.test("Subclasses of defineError classes are checked as usual", () => {
+  class MissingUserError extends MissingError {}
+  const sub = new MissingUserError({ resource: "user" });
+  assert(sub instanceof MissingError);
+  assert(sub instanceof MissingUserError);
+  assert(
+    !(new MissingError({ resource: "user" }) instanceof MissingUserError),
+  );
+});
+
+function parseNumber(text: string): number {
+  const value = Number(text);
+  return Number.isNaN(value)
+    ? Throw(new SyntaxError(`Invalid: ${text}`))
+    : value;
+}
+
+Deno.test("TryEach is lazy and partitions the results with their items", () => {
+  const calls: string[] = [];
+  const stream = TryEach(["1", "x", "3"], (text) => {
+    calls.push(text);
+    return parseNumber(text);
+  }).map((it) => it * 2);
+  assertEquals(calls, []);
+  const { ok, err } = stream.pick(SyntaxError).partition();
+  assertEquals(calls, ["1", "x", "3"]);
+  assertEquals(ok, [2, 6]);
+  assertEquals(err.map(({ index, input }) => [index, input]), [[1, "x"]]);
+  assert(err[0].error instanceof SyntaxError);
+});
+
+Deno.test("TryEach stops at the first unpicked failure", () => {
+  const calls: string[] = [];
+  const error = new TypeError("unexpected");
+  const stream = TryEach(["1", "boom", "x", "4"], (text) => {
+    calls.push(text);
+    return text === "boom" ? Throw(error) : parseNumber(text);
+  }).pick(SyntaxError);
+  const thrown = assertThrows(() => stream.partition());
+  assertEquals(thrown, error);
+  assertEquals(calls, ["1", "boom"]);
+});
+
+Deno.test("TryStream.done stops at the first error unless a fallback is given", () => {
+  const calls: string[] = [];
+  const stream = TryEach(["1", "x", "3"], (text) => {
+    calls.push(text);
+    return parseNumber(text);
+  });
+  assertThrows(() => stream.done(), SyntaxError, "Invalid: x");
+  assertEquals(calls, ["1", "x"]);
+  const tapped: number[] = [];
+  const values = stream
+    .tap((_error, item) => tapped.push(item.index))
+    .case(SyntaxError, () => 0)
+    .done();
+  assertEquals(values, [1, 0, 3]);
+  assertEquals(tapped, [1]);
+  assertEquals(
+    stream.done((_error, item) => `fallback for ${item.input}`),
+    [1, "fallback for x", 3],
+  );
+});
+
+Deno.test("TryEachAsync processes async iterables one by one", async () => {
+  async function* texts() {
+    yield "1";
+    yield "x";
+    yield "3";
+  }
+  const log: string[] = [];
+  const { ok, err } = await TryEachAsync(texts(), (text) => {
+    log.push(`start ${text}`);
+    return Promise.resolve().then(() => {
+      log.push(`end ${text}`);
+      return parseNumber(text);
+    });
+  })
+    .mapAwait((it) => Promise.resolve(it + 1))
+    .pick(SyntaxError)
+    .partition();
+  assertEquals(ok, [2, 4]);
+  assertEquals(err.map(({ index, input }) => [index, input]), [[1, "x"]]);
+  assertEquals(log, [
+    "start 1",
+    "end 1",
+    "start x",
+    "end x",
+    "start 3",
+    "end 3",
+  ]);
+});
+
+Deno.test("AsyncTryStream stops at the first unpicked failure", async () => {
+  const calls: string[] = [];
+  const error = new TypeError("unexpected");
+  const stream = TryEachAsync(["1", "boom", "x", "4"], (text) => {
+    calls.push(text);
+    return text === "boom"
+      ? Promise.reject(error)
+      : Promise.resolve(parseNumber(text));
+  });
+  const rejected = await assertRejects(() => stream.pick(SyntaxError).done());
+  assertEquals(rejected, error);
+  assertEquals(calls, ["1", "boom"]);
+  assertEquals(
+    await stream.done((e) => Promise.resolve((e as Error).message)),
+    [1, "unexpected", "Invalid: x", 4],
+  );
+});
@@ -71,25 +71,431 @@ export function Try<T>(f: () => T): TryChain<T, unknown> {
 
 /**
  * The asynchronous version of {@link Try}.
+ *
+ * Unlike {@link Try}, the chain is lazy: the function is not called until you conclude the chain with {@link AsyncTryChain.done} or {@link AsyncTryChain.settle}.
+ *
  * @param f The asynchronous function to execute, which may throw (or reject the promise with) an exception that you want to handle.
- * @returns A promise to the `TryChain` helper object containing the result of the function.
+ * @returns An `AsyncTryChain` helper object wrapping the result of the function.
+ *
+ * @example
+ *   ```typescript
+ *   // Catch a specific error and fall back to another asynchronous source
+ *   const config = await TryAsync(() => readConfig(path))
+ *     .pick(Deno.errors.NotFound)
+ *     .done(() => fetchDefaultConfig());
+ *   ```
  */
-export async function TryAsync<T>(
+export function TryAsync<T>(
   f: () => Promise<T>,
-): Promise<TryChain<T, unknown>> {
-  let value: T;
+): AsyncTryChain<T, unknown> {
+  return new AsyncTryChain(async () => {
+    let value: T;
+    try {
+      value = await f();
+    } catch (error) {
+      return { type: "Err", error };
+    }
+    return { type: "Ok", value };
+  });
+}
+
+/**
+ * Initiates a method chain to handle exceptions, disposing the resource afterwards.
+ *
+ * This is the expression version of the `using` declaration:
+ * the resource is disposed via `Symbol.dispose` whatever the outcome of the function.
+ * If the disposal also throws, the result is an {@link Err} of that error,
+ * and in case the function has already thrown, the both are kept in a `SuppressedError`.
+ *
+ * @param resource The resource to dispose. `null` and `undefined` are ignored, as in the `using` declaration.
+ * @param f The function to execute, which may throw an exception that you want to handle.
+ * @returns A `TryChain` helper object containing the result of the function.
+ *
+ * @example
+ *   ```typescript
+ *   const content = TryWith(openFileSync(path), (file) => file.readText())
+ *     .pick(NotFoundError)
+ *     .done(() => "");
+ *   ```
+ */
+export function TryWith<R extends Disposable | null | undefined, T>(
+  resource: R,
+  f: (resource: R) => T,
+): TryChain<T, unknown> {
+  const dispose = getDisposeMethod(resource, false);
+  const result = Try(() => f(resource)).result;
   try {
-    value = await f();
+    dispose?.call(resource);
   } catch (error) {
-    return new TryChain({ type: "Err", error });
+    return new TryChain({ type: "Err", error: disposalError(error, result) });
   }
-  return new TryChain({ type: "Ok", value });
+  return new TryChain(result);
+}
+
+/**
+ * The asynchronous version of {@link TryWith}.
+ *
+ * As the chain is lazy, the resource is acquired through a function
+ * when the chain is executed, so that it is not leaked if the chain is never concluded.
+ * The resource is disposed via `Symbol.asyncDispose`, or `Symbol.dispose` if not available.
+ *
+ * @param acquire The function returning the resource to dispose. An exception thrown here is also part of the result,
+ *   as well as the `TypeError` for a resource that is not disposable, in which case `f` is not called.
+ * @param f The asynchronous function to execute, which may throw (or reject the promise with) an exception that you want to handle.
+ * @returns An `AsyncTryChain` helper object wrapping the result of the function.
+ *
+ * @example
+ *   ```typescript
+ *   const content = await TryWithAsync(() => openFile(path), (file) => file.readText())
+ *     .pick(NotFoundError)
+ *     .done(() => "");
+ *   ```
+ */
+export function TryWithAsync<
+  R extends AsyncDisposable | Disposable | null | undefined,
+  T,
+>(
+  acquire: () => R | Promise<R>,
+  f: (resource: R) => Promise<T>,
+): AsyncTryChain<T, unknown> {
+  return new AsyncTryChain(async () => {
+    let resource: R;
+    let dispose: (() => void | PromiseLike<void>) | undefined;
+    try {
+      resource = await acquire();
+      dispose = getDisposeMethod(resource, true);
+    } catch (error) {
+      return { type: "Err", error };
+    }
+    const result = (await TryAsync(() => f(resource)).settle()).result;
+    try {
+      await dispose?.call(resource);
+    } catch (error) {
+      return { type: "Err", error: disposalError(error, result) };
+    }
+    return result;
+  });
+}
+
+function getDisposeMethod(
+  resource: AsyncDisposable | Disposable | null | undefined,
+  isAsync: boolean,
+): (() => void | PromiseLike<void>) | undefined {
+  if (resource == null) {
+    return undefined;
+  }
+  const method = isAsync && Symbol.asyncDispose in resource
+    ? resource[Symbol.asyncDispose]
+    : (resource as Disposable)[Symbol.dispose];
+  if (typeof method !== "function") {
+    throw new TypeError("The resource is not disposable");
+  }
+  return method;
+}
+
+function disposalError(error: unknown, result: Result<unknown, unknown>) {
+  return result.type === "Err" ? suppressedError(error, result.error) : error;
+}
+
+// SuppressedError is not available in all environments yet
+class SuppressedErrorPolyfill extends Error {
+  error: unknown;
+  suppressed: unknown;
+
+  constructor(error: unknown, suppressed: unknown) {
+    super("An error was suppressed during disposal.");
+    this.name = "SuppressedError";
+    this.error = error;
+    this.suppressed = suppressed;
+  }
+}
+
+function suppressedError(error: unknown, suppressed: unknown): SuppressedError {
+  return typeof SuppressedError === "function"
+    ? new SuppressedError(error, suppressed)
+    : new SuppressedErrorPolyfill(error, suppressed);
+}
+
+function isSuppressedError(e: unknown): e is SuppressedError {
+  return e instanceof SuppressedErrorPolyfill ||
+    typeof SuppressedError === "function" && e instanceof SuppressedError;
+}
+
+/**
+ * Functions to combine by {@link TryAll}, {@link TryCollect} or {@link TryPartition}, either in a tuple or in a record.
+ */
+export type TryFunctions =
+  | readonly (() => unknown)[]
+  | { readonly [key: string]: () => unknown };
+/**
+ * The asynchronous version of {@link TryFunctions}.
+ */
+export type TryAsyncFunctions =
+  | readonly (() => Promise<unknown>)[]
+  | { readonly [key: string]: () => Promise<unknown> };
+/**
+ * The results of {@link TryFunctions}, in the same shape as the functions.
+ */
+export type TryResults<Fs> = {
+  -readonly [K in keyof Fs]: Fs[K] extends () => infer T ? Awaited<T> : never;
+};
+/**
+ * The union of the values of {@link TryFunctions}, either in a tuple or in a record.
+ */
+export type TryResultValue<Fs> = Fs extends readonly unknown[]
+  ? TryResults<Fs>[number]
+  : TryResults<Fs>[keyof Fs];
+/**
+ * The values and errors of the functions, separated by {@link TryPartition}.
+ */
+export type TryPartitioned<T, E> = { ok: T[]; err: E[] };
+
+/**
+ * Executes the functions in order and combines their results, failing fast like `Promise.all`.
+ *
+ * @param fs The functions to execute, in a tuple or in a record.
+ * @returns A `TryChain` containing the results in the same shape as the functions, or the first error.
+ *
+ * @example
+ *   ```typescript
+ *   const { host, port } = TryAll({
+ *     host: () => parseHost(input.host),
+ *     port: () => parsePort(input.port),
+ *   }).pick(ValidationError).done((e) => Throw(new ConfigError(e.message)));
+ *   ```
+ */
+export function TryAll<const Fs extends TryFunctions>(
+  fs: Fs,
+): TryChain<TryResults<Fs>, unknown> {
+  const values: unknown[] = [];
+  for (const f of Object.values(fs)) {
+    const result = Try(f).result;
+    if (result.type === "Err") {
+      return new TryChain(result);
+    }
+    values.push(result.value);
+  }
+  return new TryChain({
+    type: "Ok",
+    value: reshape(fs, values) as TryResults<Fs>,
+  });
+}
+
+/**
+ * The asynchronous version of {@link TryAll}.
+ *
+ * The functions are executed concurrently like `Promise.all`, when the chain is executed.
+ *
+ * @param fs The asynchronous functions to execute, in a tuple or in a record.
+ * @returns An `AsyncTryChain` wrapping the results in the same shape as the functions, or the first error.
+ */
+export function TryAllAsync<const Fs extends TryAsyncFunctions>(
+  fs: Fs,
+): AsyncTryChain<TryResults<Fs>, unknown> {
+  return new AsyncTryChain(async () => {
+    try {
+      const values = await Promise.all(
+        Object.values(fs).map(async (f) => await f()),
+      );
+      return { type: "Ok", value: reshape(fs, values) as TryResults<Fs> };
+    } catch (error) {
+      return { type: "Err", error };
+    }
+  });
+}
+
+/**
+ * Executes all the functions and combines their results, collecting all the errors.
+ *
+ * @param fs The functions to execute, in a tuple or in a record.
+ * @returns A `TryChain` containing the results in the same shape as the functions, or an `AggregateError` of all the errors.
+ *
+ * @example
+ *   ```typescript
+ *   const form = TryCollect({
+ *     name: () => validateName(input.name),
+ *     email: () => validateEmail(input.email),
+ *   }).done((e) => Throw(new FormError(e.errors)));
+ *   ```
+ */
+export function TryCollect<const Fs extends TryFunctions>(
+  fs: Fs,
+): TryChain<TryResults<Fs>, AggregateError> {
+  return new TryChain(
+    collectResults(fs, Object.values(fs).map((f) => Try(f).result)),
+  );
+}
+
+/**
+ * The asynchronous version of {@link TryCollect}.
+ *
+ * The functions are executed concurrently like `Promise.allSettled`, when the chain is executed.
+ *
+ * @param fs The asynchronous functions to execute, in a tuple or in a record.
+ * @returns An `AsyncTryChain` wrapping the results in the same shape as the functions, or an `AggregateError` of all the errors.
+ */
+export function TryCollectAsync<const Fs extends TryAsyncFunctions>(
+  fs: Fs,
+): AsyncTryChain<TryResults<Fs>, AggregateError> {
+  return new AsyncTryChain(async () => {
+    return collectResults(fs, await settleFunctions(fs));
+  });
+}
+
+/**
+ * Executes all the functions and separates the values and the errors.
+ *
+ * @param fs The functions to execute, in a tuple or in a record.
+ * @returns The values and the errors, each in the order of the functions.
+ *
+ * @example
+ *   ```typescript
+ *   const { ok: records, err: errors } = TryPartition(
+ *     rows.map((row) => () => parseRecord(row)),
+ *   );
+ *   ```
+ */
+export function TryPartition<const Fs extends TryFunctions>(
+  fs: Fs,
+): TryPartitioned<TryResultValue<Fs>, unknown> {
+  return partitionResults(Object.values(fs).map((f) => Try(f).result));
+}
+
+/**
+ * The asynchronous version of {@link TryPartition}.
+ *
+ * The functions are executed concurrently like `Promise.allSettled`.
+ *
+ * @param fs The asynchronous functions to execute, in a tuple or in a record.
+ * @returns A promise to the values and the errors, each in the order of the functions.
+ */
+export async function TryPartitionAsync<const Fs extends TryAsyncFunctions>(
+  fs: Fs,
+): Promise<TryPartitioned<TryResultValue<Fs>, unknown>> {
+  return partitionResults(await settleFunctions(fs));
+}
+
+// Puts the values back into the shape (tuple or record) of the original functions
+function reshape(
+  shape: TryFunctions,
+  values: unknown[],
+): unknown[] | Record<string, unknown> {
+  if (Array.isArray(shape)) {
+    return values;
+  } else {
+    return Object.fromEntries(
+      Object.keys(shape).map((key, i) => [key, values[i]]),
+    );
+  }
+}
+
+async function settleFunctions(
+  fs: TryAsyncFunctions,
+): Promise<Result<unknown, unknown>[]> {
+  const settled = await Promise.allSettled(
+    Object.values(fs).map(async (f) => await f()),
+  );
+  return settled.map((s) =>
+    s.status === "fulfilled"
+      ? { type: "Ok", value: s.value }
+      : { type: "Err", error: s.reason }
+  );
+}
+
+function collectResults<Fs extends TryFunctions>(
+  fs: Fs,
+  results: Result<unknown, unknown>[],
+): Result<TryResults<Fs>, AggregateError> {
+  const { ok, err } = partitionResults(results);
+  if (err.length > 0) {
+    return {
+      type: "Err",
+      error: new AggregateError(
+        err,
+        `${err.length} of ${results.length} computations failed`,
+      ),
+    };
+  }
+  return { type: "Ok", value: reshape(fs, ok) as TryResults<Fs> };
+}
+
+function partitionResults<T>(
+  results: Result<unknown, unknown>[],
+): TryPartitioned<T, unknown> {
+  const partitioned: TryPartitioned<T, unknown> = { ok: [], err: [] };
+  for (const result of results) {
+    if (result.type === "Ok") {
+      partitioned.ok.push(result.value as T);
+    } else {
+      partitioned.err.push(result.error);
+    }
+  }
+  return partitioned;
+}
+
+/**
+ * Executes the function for each item, producing a lazy stream of the results.
+ *
+ * The function is not called until the stream is consumed, e.g. by {@link TryStream.partition} or {@link TryStream.done}.
+ *
+ * @param items the items to process
+ * @param f The function to execute for each item, which may throw an exception that you want to handle.
+ * @returns A `TryStream` of the results, each with the index and the input item.
+ *
+ * @example
+ *   ```typescript
+ *   const { ok: records, err: failures } = TryEach(lines, (line) => JSON.parse(line))
+ *     .pick(SyntaxError) // Other errors stop the iteration
+ *     .partition();
+ *   for (const { index, error } of failures) {
+ *     console.error(`Line ${index + 1}: ${error.message}`);
+ *   }
+ *   ```
+ */
+export function TryEach<I, T>(
+  items: Iterable<I>,
+  f: (item: I, index: number) => T,
+): TryStream<I, T, unknown> {
+  return new TryStream({
+    *[Symbol.iterator]() {
+      let index = 0;
+      for (const input of items) {
+        const i = index++;
+        yield { index: i, input, chain: Try(() => f(input, i)) };
+      }
+    },
+  });
+}
+
+/**
+ * The asynchronous version of {@link TryEach}.
+ *
+ * The items are processed one by one.
+ *
+ * @param items the items to process, possibly asynchronously iterable
+ * @param f The asynchronous function to execute for each item, which may throw (or reject the promise with) an exception that you want to handle.
+ * @returns An `AsyncTryStream` of the results, each with the index and the input item.
+ */
+export function TryEachAsync<I, T>(
+  items: AsyncIterable<I> | Iterable<I>,
+  f: (item: I, index: number) => Promise<T>,
+): AsyncTryStream<I, T, unknown> {
+  return new AsyncTryStream({
+    async *[Symbol.asyncIterator]() {
+      let index = 0;
+      for await (const input of items) {
+        const i = index++;
+        const chain = await TryAsync(() => f(input, i)).settle();
+        yield { index: i, input, chain };
+      }
+    },
+  });
 }
 
 /**
  * A helper utility to handle {@link Result}.
  *
- * Usually you get its instance from {@link Try} or {@link TryAsync}.
+ * Usually you get its instance from {@link Try}.
  *
  * Note: unlike most existing utility packages for `Result`-based error handling,
  *       this package is designed to use `Result` only locally within a function.
@@ -104,7 +510,7 @@ export class TryChain<out T, out E> {
   readonly result: Result<T, E>;
 
   /**
-   * Initiate a method chain. You should basically use {@link Try} or {@link TryAsync} instead.
+   * Initiate a method chain. You should basically use {@link Try} instead.
    *
    * @param result The raw "Result" value
    */
@@ -143,21 +549,26 @@ export class TryChain<out T, out E> {
    * This is useful when you want to handle errors in more than one way
    * depending on the error type, other than rethrowing.
    *
+   * The handled errors are removed from the error type of the chain
+   * (see {@link UnmatchedError}), so that {@link TryChain.exhaustive} can
+   * check that all the errors are handled.
+   *
    * @param pred The predicate. See {@link ErrorPredicate} for details.
    * @param f The function called if the predicate matches
    * @returns the next chained value
    */
-  case<U, E2>(
-    pred: ErrorPredicate<E2>,
-    f: (subchain: TryChain<never, E2>) => U,
-  ): TryChain<T | U, E> {
+  case<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    f: (subchain: TryChain<never, E & MatchedError<P>>) => U,
+  ): TryChain<T | U, UnmatchedError<E, P>> {
     if (this.result.type === "Ok") {
-      return this;
-    } else if (isErrorOf(this.result.error, pred)) {
-      const result = f(new TryChain({ type: "Err", error: this.result.error }));
+      return this as TryChain<T, UnmatchedError<E, P>>;
+    } else if (matchesError(this.result.error, pred)) {
+      const error = this.result.error as E & MatchedError<P>;
+      const result = f(new TryChain({ type: "Err", error }));
       return new TryChain({ type: "Ok", value: result });
     } else {
-      return this;
+      return this as TryChain<T, UnmatchedError<E, P>>;
     }
   }
 
@@ -169,16 +580,53 @@ export class TryChain<out T, out E> {
    * @param pred The predicate. See {@link ErrorPredicate} for details.
    * @returns the next chained value, if the predicate matches. Otherwise, the method does not return.
    */
-  pick<E2>(pred: ErrorPredicate<E2>): TryChain<T, E & E2> {
+  pick<const P extends ErrorPredicate<unknown>>(
+    pred: P,
+  ): TryChain<T, E & MatchedError<P>> {
     if (this.result.type === "Ok") {
       return new TryChain({ type: "Ok", value: this.result.value });
-    } else if (isErrorOf(this.result.error, pred)) {
-      return new TryChain({ type: "Err", error: this.result.error });
+    } else if (matchesError(this.result.error, pred)) {
+      const error = this.result.error as E & MatchedError<P>;
+      return new TryChain({ type: "Err", error });
     } else {
       throw this.result.error;
     }
   }
 
+  /**
+   * Check for a specific error and replace it with a wrapping error.
+   *
+   * The original error is always recorded as the `cause` of the new error:
+   * it is passed to the factory as `{ cause }`, which you can forward to the error constructor,
+   * and it is set on the new error afterwards if the factory did not.
+   * Other errors are left untouched.
+   *
+   * @param pred The predicate. See {@link ErrorPredicate} for details.
+   * @param factory The function creating the wrapping error
+   * @returns the next chained value
+   *
+   * @example
+   *   ```typescript
+   *   const url = Try(() => new URL(input))
+   *     .wrap(TypeError, (options) => new URLError("Invalid URL", options))
+   *     .done();
+   *   ```
+   */
+  wrap<const P extends ErrorPredicate<unknown>, F>(
+    pred: P,
+    factory: (options: { cause: E & MatchedError<P> }) => F,
+  ): TryChain<T, UnmatchedError<E, P> | F> {
+    if (this.result.type === "Err" && matchesError(this.result.error, pred)) {
+      const cause = this.result.error as E & MatchedError<P>;
+      return new TryChain({
+        type: "Err",
+        error: withCause(factory({ cause }), cause),
+      });
+    } else {
+      return this as TryChain<T, UnmatchedError<E, P>>;
+    }
+  }
+
   /**
    * Run a side-effect function if it's an {@link Err}.
    *
@@ -191,6 +639,24 @@ export class TryChain<out T, out E> {
     return this;
   }
 
+  /**
+   * Run a side-effect function regardless of the result, like the `finally` clause.
+   *
+   * If the function throws, the exception propagates as in the `finally` clause.
+   *
+   * Note that `TryChain` is evaluated eagerly, stage by stage:
+   * an error rethrown by a preceding stage such as {@link TryChain.pick} leaves the chain before this stage is reached.
+   * Put it before such stages, as in `Try(f).finally(cleanup).pick(SyntaxError)`, to run it on every exit path.
+   * {@link AsyncTryChain.finally} does not have this restriction.
+   *
+   * @param f the side-effect function
+   * @returns the same chained value
+   */
+  finally(f: () => void): TryChain<T, E> {
+    f();
+    return this;
+  }
+
   /**
    * Finish the error handling chain. The remaining error, if any, will be rethrown.
    *
@@ -213,47 +679,1111 @@ export class TryChain<out T, out E> {
       throw this.result.error;
     }
   }
-}
 
-/**
- * Values describing condition on an error instance. There are three types of predicates:
- *
- * 1. Error constructor, like `SyntaxError` or `TypeError`
- * 2. Error predicate function, like `(e) => e instanceof TypeError && e.message.includes("ERR_INVALID_URL")`
- * 3. Union of the above, like `[SyntaxError, TypeError, (e) => e.name === "URLError"]`
- */
-export type ErrorPredicate<E> =
-  | ErrorConstructorPredicate<E>
-  | ErrorPredicateFunction<E>
-  | ErrorUnionPredicate<E>;
-export type ErrorConstructorPredicate<out E> = new (...args: unknown[]) => E;
-export type ErrorPredicateFunction<out E> = (e: unknown) => e is E;
-export type ErrorUnionPredicate<out E> = ErrorPredicate<E>[];
+  /**
+   * Finish the error handling chain, asserting that all the declared errors have been handled.
+   *
+   * This method type-checks only when the error type of the chain is `never`,
+   * i.e. every member of the declared error union has been handled by {@link TryChain.case}.
+   * The error type is usually declared by {@link TryChain.pick}.
+   * Any remaining error at runtime, which was not declared, is rethrown.
+   *
+   * @return The Ok value, if any. Otherwise, the method does not return.
+   *
+   * @example
+   *   ```typescript
+   *   const status = Try(() => repository.save(entity))
+   *     .pick([NotFoundError, ConflictError])
+   *     .case(NotFoundError, () => 404)
+   *     .case(ConflictError, () => 409)
+   *     .map(() => 200)
+   *     .exhaustive(); // Compile error when a new error is added to the list above
+   *   ```
+   */
+  exhaustive(this: TryChain<T, never>): T {
+    return this.done();
+  }
+}
 
 /**
- * Evaluates the predicate in the form of {@link ErrorPredicate}.
+ * The asynchronous version of {@link TryChain}.
  *
- * This function is exported for convenience, but you usually don't need to call it directly.
- * See {@link TryChain.case} and {@link TryChain.pick} for the typical usage.
+ * Usually you get its instance from {@link TryAsync}.
  *
- * @param e the error value to test
- * @param pred the predicate
- * @returns whether the predicate matches
+ * The chain is lazy: each method only records the stage, and nothing is
+ * executed until you call {@link AsyncTryChain.done} or {@link AsyncTryChain.settle}.
  */
-export function isErrorOf<E>(e: unknown, pred: ErrorPredicate<E>): e is E {
-  if (typeof pred === "function") {
-    const isLikelyErrorConstructor = pred.prototype instanceof Error ||
-      Object.getPrototypeOf(pred.prototype) !== Object.prototype;
-    if (isLikelyErrorConstructor) {
-      return e instanceof pred;
-    } else {
-      return (pred as ErrorPredicateFunction<E>)(e);
-    }
-  } else if (Array.isArray(pred)) {
-    return pred.some((p) => isErrorOf(e, p));
-  } else {
-    throw new Error("Invalid predicate");
+export class AsyncTryChain<out T, out E> {
+  private readonly _run: () => Promise<Result<T, E>>;
+
+  /**
+   * Initiate a method chain. You should basically use {@link TryAsync} instead.
+   *
+   * @param run The function computing the raw "Result" value
+   */
+  constructor(run: () => Promise<Result<T, E>>) {
+    this._run = run;
+  }
+
+  private _then<U, E2>(
+    f: (chain: TryChain<T, E>) => TryChain<U, E2> | Promise<TryChain<U, E2>>,
+  ): AsyncTryChain<U, E2> {
+    return new AsyncTryChain(async () =>
+      (await f(new TryChain(await this._run()))).result
+    );
+  }
+
+  /**
+   * Transforms the value if it's an {@link Ok}.
+   *
+   * @param f A transformation applied if it's an Ok.
+   * @returns The next chained value, possibly after the transformation.
+   */
+  map<U>(f: (value: T) => U): AsyncTryChain<U, E> {
+    return this._then((chain) => chain.map(f));
+  }
+
+  /**
+   * Transforms the value if it's an {@link Ok}, async version.
+   *
+   * @param f An asynchronous transformation applied if it's an Ok.
+   * @returns The next chained value, possibly after the transformation.
+   *
+   * @example
+   *   ```typescript
+   *   const body = await TryAsync(() => fetch(url))
+   *     .mapAwait((response) => response.text())
+   *     .done(() => "");
+   *   ```
+   */
+  mapAwait<U>(f: (value: T) => Promise<U>): AsyncTryChain<U, E> {
+    return this._then(async (chain) => {
+      if (chain.result.type === "Ok") {
+        return new TryChain({ type: "Ok", value: await f(chain.result.value) });
+      } else {
+        return new TryChain({ type: "Err", error: chain.result.error });
+      }
+    });
+  }
+
+  /**
+   * Check for a specific error and handle it in a separate function.
+   *
+   * @param pred The predicate. See {@link ErrorPredicate} for details.
+   * @param f The function called if the predicate matches
+   * @returns the next chained value
+   */
+  case<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    f: (subchain: TryChain<never, E & MatchedError<P>>) => U,
+  ): AsyncTryChain<T | U, UnmatchedError<E, P>> {
+    return this._then((chain) => chain.case<P, U>(pred, f));
+  }
+
+  /**
+   * Check for a specific error and handle it in a separate asynchronous function.
+   *
+   * @param pred The predicate. See {@link ErrorPredicate} for details.
+   * @param f The asynchronous function called if the predicate matches
+   * @returns the next chained value
+   */
+  caseAwait<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    f: (subchain: TryChain<never, E & MatchedError<P>>) => Promise<U>,
+  ): AsyncTryChain<T | U, UnmatchedError<E, P>> {
+    return this._then(
+      async (chain): Promise<TryChain<T | U, UnmatchedError<E, P>>> => {
+        if (
+          chain.result.type === "Err" && matchesError(chain.result.error, pred)
+        ) {
+          const subchain = new TryChain<never, E & MatchedError<P>>({
+            type: "Err",
+            error: chain.result.error as E & MatchedError<P>,
+          });
+          return new TryChain({ type: "Ok", value: await f(subchain) });
+        } else {
+          return chain as TryChain<T, UnmatchedError<E, P>>;
+        }
+      },
+    );
+  }
+
+  /**
+   * Check for a specific error, and if it doesn't match, simply rethrow it.
+   *
+   * The rethrown error rejects the promise returned from {@link AsyncTryChain.done}.
+   *
+   * @param pred The predicate. See {@link ErrorPredicate} for details.
+   * @returns the next chained value
+   */
+  pick<const P extends ErrorPredicate<unknown>>(
+    pred: P,
+  ): AsyncTryChain<T, E & MatchedError<P>> {
+    return this._then((chain) => chain.pick(pred));
+  }
+
+  /**
+   * Check for a specific error and replace it with a wrapping error, recording the original one as `cause`.
+   *
+   * @param pred The predicate. See {@link ErrorPredicate} for details.
+   * @param factory The function creating the wrapping error
+   * @returns the next chained value
+   */
+  wrap<const P extends ErrorPredicate<unknown>, F>(
+    pred: P,
+    factory: (options: { cause: E & MatchedError<P> }) => F,
+  ): AsyncTryChain<T, UnmatchedError<E, P> | F> {
+    return this._then((chain) => chain.wrap<P, F>(pred, factory));
+  }
+
+  /**
+   * Run a side-effect function if it's an {@link Err}.
+   */
+  tap(f: (error: E) => void): AsyncTryChain<T, E> {
+    return this._then((chain) => chain.tap(f));
+  }
+
+  /**
+   * Run an asynchronous side-effect function if it's an {@link Err}.
+   */
+  tapAwait(f: (error: E) => Promise<void>): AsyncTryChain<T, E> {
+    return this._then(async (chain) => {
+      if (chain.result.type === "Err") {
+        await f(chain.result.error);
+      }
+      return chain;
+    });
+  }
+
+  /**
+   * Run a side-effect function regardless of the result, like the `finally` clause.
+   *
+   * It also runs when a preceding stage rethrows, like an unmatched error of {@link AsyncTryChain.pick}.
+   * If the function throws, the exception replaces the outcome as in the `finally` clause.
+   *
+   * @param f the side-effect function
+   * @returns the same chained value
+   */
+  finally(f: () => void): AsyncTryChain<T, E> {
+    return new AsyncTryChain(async () => {
+      try {
+        return await this._run();
+      } finally {
+        f();
+      }
+    });
+  }
+
+  /**
+   * Run an asynchronous side-effect function regardless of the result, like the `finally` clause.
+   *
+   * See {@link AsyncTryChain.finally} for details.
+   *
+   * @param f the asynchronous side-effect function
+   * @returns the same chained value
+   */
+  finallyAwait(f: () => Promise<void>): AsyncTryChain<T, E> {
+    return new AsyncTryChain(async () => {
+      try {
+        return await this._run();
+      } finally {
+        await f();
+      }
+    });
+  }
+
+  /**
+   * Executes the chain again when it fails, with exponential backoff.
+   *
+   * The whole chain up to this stage is executed for each attempt.
+   * When the attempts run out, the error is a {@link RetryError} containing the errors of all the attempts,
+   * even if there was only one attempt. The last error is also its `cause`, so it can be found with {@link causedBy}.
+   * An error not matching `when` is not retried, and stays as is so that the following stages can pick it.
+   * When it is aborted through the signal, the chain is rejected with the abort reason, skipping the following stages.
+   *
+   * @param options the retry policy. See {@link RetryOptions} for details.
+   * @returns the next chained value
+   *
+   * @example
+   *   ```typescript
+   *   const response = await TryAsync(() => fetchJson(url))
+   *     .retry({ when: [TypeError, { status: 503 }], maxAttempts: 5 })
+   *     .pick(causedBy({ status: 503 }))
+   *     .done(() => cachedResponse);
+   *   ```
+   */
+  retry(
+    options?: RetryOptions & { when?: undefined },
+  ): AsyncTryChain<T, RetryError>;
+  /**
+   * Executes the chain again when it fails with the errors matching `when`, with exponential backoff.
+   *
+   * The other errors are not retried, and remain in the error type of the chain (see {@link UnmatchedError}).
+   *
+   * @param options the retry policy. See {@link RetryOptions} for details.
+   * @returns the next chained value
+   */
+  retry<const P extends ErrorPredicate<unknown>>(
+    options: RetryOptions & { when: P },
+  ): AsyncTryChain<T, UnmatchedError<E, P> | RetryError>;
+  retry(options: RetryOptions = {}): AsyncTryChain<T, unknown> {
+    const {
+      when,
+      maxAttempts = 3,
+      initialDelay = 100,
+      maxDelay = Infinity,
+      factor = 2,
+      jitter = 1,
+      deadline,
+      onRetry,
+      signal,
+      clock = systemClock,
+      random = Math.random,
+    } = options;
+    return new AsyncTryChain<T, unknown>(async () => {
+      const errors: E[] = [];
+      for (let attempt = 1;; attempt++) {
+        signal?.throwIfAborted();
+        const result = await this._run();
+        if (result.type === "Ok") {
+          return result;
+        }
+        if (when !== undefined && !matchesError(result.error, when)) {
+          return result;
+        }
+        errors.push(result.error);
+
+        const baseDelay = Math.min(
+          maxDelay,
+          initialDelay * factor ** (attempt - 1),
+        );
+        const delay = baseDelay * (1 - jitter * random());
+        const canRetry = attempt < maxAttempts &&
+          (deadline === undefined || clock.now() + delay <= deadline);
+        if (!canRetry) {
+          return { type: "Err", error: new RetryError(errors) };
+        }
+        onRetry?.({ error: result.error, attempt, delay });
+        await clock.sleep(delay, signal);
+      }
+    });
+  }
+
+  /**
+   * Executes the chain and returns the synchronous {@link TryChain} holding its result.
+   *
+   * Useful when you want to inspect the raw {@link Result} value.
+   *
+   * @returns A promise to the settled chain.
+   */
+  async settle(): Promise<TryChain<T, E>> {
+    return new TryChain(await this._run());
+  }
+
+  /**
+   * Finish the error handling chain. The remaining error, if any, will be rethrown.
+   *
+   * @return A promise to the Ok value, if any. Otherwise, the promise is rejected with the error.
+   */
+  done(): Promise<T>;
+  /**
+   * Finish the error handling chain.
+   *
+   * @param fallback The error-handling function, which may also be asynchronous. You may return a fallback value or just rethrow something (in which case {@link Throw} would be convenient).
+   * @return A promise to the Ok value or the fall back value.
+   */
+  done<U>(fallback: (error: E) => U | Promise<U>): Promise<T | U>;
+  async done<U>(
+    fallback?: ((error: E) => U | Promise<U>) | undefined,
+  ): Promise<T | U> {
+    const result = await this._run();
+    if (result.type === "Ok") {
+      return result.value;
+    } else if (fallback) {
+      return await fallback(result.error);
+    } else {
+      throw result.error;
+    }
+  }
+
+  /**
+   * Finish the error handling chain, asserting that all the declared errors have been handled.
+   *
+   * See {@link TryChain.exhaustive} for details.
+   *
+   * @return A promise to the Ok value, if any. Otherwise, the promise is rejected with the error.
+   */
+  exhaustive(this: AsyncTryChain<T, never>): Promise<T> {
+    return this.done();
+  }
+}
+
+/**
+ * An item of {@link TryStream} or {@link AsyncTryStream}.
+ */
+export type TryItem<I, T, E> = {
+  /** The index of the item, starting from 0 */
+  readonly index: number;
+  /** The input item */
+  readonly input: I;
+  /** The result for the item */
+  readonly chain: TryChain<T, E>;
+};
+
+/**
+ * A failure collected by {@link TryStream.partition} or {@link AsyncTryStream.partition}.
+ */
+export type TryFailure<I, E> = {
+  /** The index of the item, starting from 0 */
+  readonly index: number;
+  /** The input item */
+  readonly input: I;
+  /** The error for the item */
+  readonly error: E;
+};
+
+/**
+ * A lazy stream of {@link TryChain}s, one for each item.
+ *
+ * Usually you get its instance from {@link TryEach}.
+ *
+ * Each method applies the corresponding method of {@link TryChain} to each item.
+ * Note that an exception from these methods, like the one rethrown from {@link TryStream.pick}, stops the iteration.
+ */
+export class TryStream<I, out T, out E> implements Iterable<TryItem<I, T, E>> {
+  private readonly _items: Iterable<TryItem<I, T, E>>;
+
+  /**
+   * Initiate a stream. You should basically use {@link TryEach} instead.
+   *
+   * @param items the items with their results
+   */
+  constructor(items: Iterable<TryItem<I, T, E>>) {
+    this._items = items;
+  }
+
+  [Symbol.iterator](): Iterator<TryItem<I, T, E>> {
+    return this._items[Symbol.iterator]();
+  }
+
+  private _then<U, E2>(
+    f: (chain: TryChain<T, E>, item: TryItem<I, T, E>) => TryChain<U, E2>,
+  ): TryStream<I, U, E2> {
+    const items = this._items;
+    return new TryStream({
+      *[Symbol.iterator]() {
+        for (const item of items) {
+          yield {
+            index: item.index,
+            input: item.input,
+            chain: f(item.chain, item),
+          };
+        }
+      },
+    });
+  }
+
+  /**
+   * Transforms the value of each item if it's an {@link Ok}. See {@link TryChain.map}.
+   */
+  map<U>(f: (value: T) => U): TryStream<I, U, E> {
+    return this._then((chain) => chain.map(f));
+  }
+
+  /**
+   * Handles a specific error of each item. See {@link TryChain.case}.
+   */
+  case<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    f: (subchain: TryChain<never, E & MatchedError<P>>) => U,
+  ): TryStream<I, T | U, UnmatchedError<E, P>> {
+    return this._then((chain) => chain.case<P, U>(pred, f));
+  }
+
+  /**
+   * Checks for a specific error of each item, and stops the iteration by rethrowing the error if it doesn't match. See {@link TryChain.pick}.
+   */
+  pick<const P extends ErrorPredicate<unknown>>(
+    pred: P,
+  ): TryStream<I, T, E & MatchedError<P>> {
+    return this._then((chain) => chain.pick(pred));
+  }
+
+  /**
+   * Runs a side-effect function for each {@link Err}, along with the item.
+   */
+  tap(f: (error: E, item: TryItem<I, T, E>) => void): TryStream<I, T, E> {
+    return this._then((chain, item) => chain.tap((error) => f(error, item)));
+  }
+
+  /**
+   * Consumes the stream and separates the values and the failures.
+   *
+   * @returns The values and the failures, each in the order of the items.
+   */
+  partition(): TryPartitioned<T, TryFailure<I, E>> {
+    const partitioned: TryPartitioned<T, TryFailure<I, E>> = {
+      ok: [],
+      err: [],
+    };
+    for (const { index, input, chain } of this._items) {
+      if (chain.result.type === "Ok") {
+        partitioned.ok.push(chain.result.value);
+      } else {
+        partitioned.err.push({ index, input, error: chain.result.error });
+      }
+    }
+    return partitioned;
+  }
+
+  /**
+   * Consumes the stream, stopping at the first error, which will be rethrown.
+   *
+   * @returns The values of all the items.
+   */
+  done(): T[];
+  /**
+   * Consumes the stream, replacing the errors with fallback values.
+   *
+   * @param fallback The error-handling function, called along with the item.
+   * @returns The values or the fallback values of all the items.
+   */
+  done<U>(fallback: (error: E, item: TryItem<I, T, E>) => U): (T | U)[];
+  done<U>(
+    fallback?: ((error: E, item: TryItem<I, T, E>) => U) | undefined,
+  ): (T | U)[] {
+    const values: (T | U)[] = [];
+    for (const item of this._items) {
+      values.push(
+        fallback
+          ? item.chain.done((error) => fallback(error, item))
+          : item.chain.done(),
+      );
+    }
+    return values;
+  }
+}
+
+/**
+ * The asynchronous version of {@link TryStream}.
+ *
+ * Usually you get its instance from {@link TryEachAsync}.
+ */
+export class AsyncTryStream<I, out T, out E>
+  implements AsyncIterable<TryItem<I, T, E>> {
+  private readonly _items: AsyncIterable<TryItem<I, T, E>>;
+
+  /**
+   * Initiate a stream. You should basically use {@link TryEachAsync} instead.
+   *
+   * @param items the items with their results
+   */
+  constructor(items: AsyncIterable<TryItem<I, T, E>>) {
+    this._items = items;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<TryItem<I, T, E>> {
+    return this._items[Symbol.asyncIterator]();
+  }
+
+  private _then<U, E2>(
+    f: (
+      chain: TryChain<T, E>,
+      item: TryItem<I, T, E>,
+    ) => TryChain<U, E2> | Promise<TryChain<U, E2>>,
+  ): AsyncTryStream<I, U, E2> {
+    const items = this._items;
+    return new AsyncTryStream({
+      async *[Symbol.asyncIterator]() {
+        for await (const item of items) {
+          const chain = await f(item.chain, item);
+          yield { index: item.index, input: item.input, chain };
+        }
+      },
+    });
+  }
+
+  /**
+   * Transforms the value of each item if it's an {@link Ok}. See {@link TryChain.map}.
+   */
+  map<U>(f: (value: T) => U): AsyncTryStream<I, U, E> {
+    return this._then((chain) => chain.map(f));
+  }
+
+  /**
+   * Transforms the value of each item if it's an {@link Ok}, async version. See {@link AsyncTryChain.mapAwait}.
+   */
+  mapAwait<U>(f: (value: T) => Promise<U>): AsyncTryStream<I, U, E> {
+    return this._then((chain) =>
+      new AsyncTryChain(() => Promise.resolve(chain.result)).mapAwait(f)
+        .settle()
+    );
+  }
+
+  /**
+   * Handles a specific error of each item. See {@link TryChain.case}.
+   */
+  case<const P extends ErrorPredicate<unknown>, U>(
+    pred: P,
+    f: (subchain: TryChain<never, E & MatchedError<P>>) => U,
+  ): AsyncTryStream<I, T | U, UnmatchedError<E, P>> {
+    return this._then((chain) => chain.case<P, U>(pred, f));
+  }
+
+  /**
+   * Checks for a specific error of each item, and stops the iteration by rethrowing the error if it doesn't match. See {@link TryChain.pick}.
+   */
+  pick<const P extends ErrorPredicate<unknown>>(
+    pred: P,
+  ): AsyncTryStream<I, T, E & MatchedError<P>> {
+    return this._then((chain) => chain.pick(pred));
+  }
+
+  /**
+   * Runs a side-effect function for each {@link Err}, along with the item.
+   */
+  tap(f: (error: E, item: TryItem<I, T, E>) => void): AsyncTryStream<I, T, E> {
+    return this._then((chain, item) => chain.tap((error) => f(error, item)));
+  }
+
+  /**
+   * Consumes the stream and separates the values and the failures.
+   *
+   * @returns A promise to the values and the failures, each in the order of the items.
+   */
+  async partition(): Promise<TryPartitioned<T, TryFailure<I, E>>> {
+    const partitioned: TryPartitioned<T, TryFailure<I, E>> = {
+      ok: [],
+      err: [],
+    };
+    for await (const { index, input, chain } of this._items) {
+      if (chain.result.type === "Ok") {
+        partitioned.ok.push(chain.result.value);
+      } else {
+        partitioned.err.push({ index, input, error: chain.result.error });
+      }
+    }
+    return partitioned;
+  }
+
+  /**
+   * Consumes the stream, stopping at the first error, which will be rethrown.
+   *
+   * @returns A promise to the values of all the items.
+   */
+  done(): Promise<T[]>;
+  /**
+   * Consumes the stream, replacing the errors with fallback values.
+   *
+   * @param fallback The error-handling function, called along with the item. It may also be asynchronous.
+   * @returns A promise to the values or the fallback values of all the items.
+   */
+  done<U>(
+    fallback: (error: E, item: TryItem<I, T, E>) => U | Promise<U>,
+  ): Promise<(T | U)[]>;
+  async done<U>(
+    fallback?:
+      | ((error: E, item: TryItem<I, T, E>) => U | Promise<U>)
+      | undefined,
+  ): Promise<(T | U)[]> {
+    const values: (T | U)[] = [];
+    for await (const item of this._items) {
+      if (item.chain.result.type === "Ok") {
+        values.push(item.chain.result.value);
+      } else if (fallback) {
+        values.push(await fallback(item.chain.result.error, item));
+      } else {
+        throw item.chain.result.error;
+      }
+    }
+    return values;
+  }
+}
+
+/**
+ * The retry policy for {@link AsyncTryChain.retry}.
+ */
+export type RetryOptions = {
+  /**
+   * The errors to retry. Defaults to all errors.
+   */
+  when?: ErrorPredicate<unknown> | undefined;
+  /**
+   * The maximum number of attempts, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number | undefined;
+  /**
+   * The delay before the first retry in milliseconds, before jitter is applied. Defaults to 100.
+   */
+  initialDelay?: number | undefined;
+  /**
+   * The upper bound of the delay in milliseconds, before jitter is applied. Defaults to `Infinity`.
+   */
+  maxDelay?: number | undefined;
+  /**
+   * The multiplier of the delay for each retry. Defaults to 2.
+   */
+  factor?: number | undefined;
+  /**
+   * The ratio of the delay to be randomized, from 0 (no jitter) to 1 (full jitter). Defaults to 1.
+   */
+  jitter?: number | undefined;
+  /**
+   * The time, as in {@link Clock.now}, after which no retry is started.
+   */
+  deadline?: number | undefined;
+  /**
+   * Called before waiting for each retry.
+   */
+  onRetry?: ((event: RetryEvent) => void) | undefined;
+  /**
+   * The signal to stop retrying. The chain is rejected with its reason once aborted.
+   */
+  signal?: AbortSignal | undefined;
+  /**
+   * The source of time. Defaults to {@link systemClock}.
+   */
+  clock?: Clock | undefined;
+  /**
+   * The source of randomness for jitter, returning a number in [0, 1). Defaults to `Math.random`.
+   */
+  random?: (() => number) | undefined;
+};
+
+/**
+ * Describes a retry about to happen in {@link AsyncTryChain.retry}.
+ */
+export type RetryEvent = {
+  /** The error of the failed attempt */
+  readonly error: unknown;
+  /** The number of the failed attempt, starting from 1 */
+  readonly attempt: number;
+  /** The delay before the next attempt in milliseconds */
+  readonly delay: number;
+};
+
+/**
+ * The error from {@link AsyncTryChain.retry} when the attempts failed, however many they were.
+ *
+ * `errors` contains the errors of all the attempts, and `cause` is the error of the last attempt.
+ */
+export class RetryError extends AggregateError {
+  constructor(errors: unknown[]) {
+    const attempts = errors.length === 1
+      ? "1 attempt"
+      : `${errors.length} attempts`;
+    super(errors, `Failed after ${attempts}`, {
+      cause: errors[errors.length - 1],
+    });
+    this.name = "RetryError";
+  }
+}
+
+/**
+ * A source of time, which can be replaced in tests.
+ */
+export interface Clock {
+  /**
+   * Returns the current time in milliseconds.
+   */
+  now(): number;
+  /**
+   * Waits for the given time.
+   *
+   * @param ms the time to wait in milliseconds
+   * @param signal the signal to stop waiting, in which case the promise is rejected with the abort reason
+   */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * The {@link Clock} backed by `Date.now` and `setTimeout`.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }),
+};
+
+/**
+ * Defines an error class with typed fields.
+ *
+ * The class can be used as an {@link ErrorConstructorPredicate} as usual, and
+ * has a static `is` guard which also recognizes the errors of the same name from other realms, like iframes,
+ * where `instanceof` fails. Within a realm, the errors are identified by the class as usual,
+ * so that the classes of the same name from different modules are kept apart.
+ *
+ * @param name the name of the error class, also used as the `name` of the errors. It should be unique.
+ * @param message the function building the error message from the fields. The type of the fields is inferred from its parameter.
+ * @returns the error class, whose constructor takes the fields and `ErrorOptions`.
+ *
+ * @example
+ *   ```typescript
+ *   const NotFoundError = defineError(
+ *     "NotFoundError",
+ *     (fields: { resource: string }) => `${fields.resource} not found`,
+ *   );
+ *   type NotFoundError = InstanceType<typeof NotFoundError>;
+ *
+ *   const user = users.get(id) ?? Throw(new NotFoundError({ resource: "user" }));
+ *   ```
+ */
+export function defineError<
+  const N extends string,
+  F extends object = Record<never, never>,
+>(
+  name: N,
+  message?: (fields: F) => string,
+): DefinedErrorClass<N, F> {
+  const cls = class extends Error {
+    constructor(fields?: F, options?: ErrorOptions) {
+      super(message && fields ? message(fields) : "", options);
+      Object.assign(this, fields);
+    }
+
+    static is(e: unknown): e is DefinedError<N, F> {
+      if (e instanceof cls) {
+        return true;
+      }
+      // The errors of this realm are only identified by the class
+      return typeof e === "object" && e !== null && !(e instanceof Error) &&
+        (e as Record<symbol, unknown>)[errorNameKey] === name;
+    }
+  };
+  Object.defineProperty(cls, "name", { value: name });
+  Object.defineProperty(cls.prototype, "name", {
+    value: name,
+    writable: true,
+    enumerable: false,
+    configurable: true,
+  });
+  Object.defineProperty(cls.prototype, errorNameKey, { value: name });
+  return cls as unknown as DefinedErrorClass<N, F>;
+}
+
+// Shared among realms
+const errorNameKey = Symbol.for("@qnighy/metaflow/exception#defineError");
+
+/**
+ * An error class created by {@link defineError}.
+ */
+export interface DefinedErrorClass<N extends string, F> {
+  new (
+    ...args: Partial<F> extends F ? [fields?: F, options?: ErrorOptions]
+      : [fields: F, options?: ErrorOptions]
+  ): DefinedError<N, F>;
+  readonly prototype: DefinedError<N, F>;
+  /**
+   * Tests whether the value is an error of this class, or of the class of the same name from another realm.
+   */
+  is(e: unknown): e is DefinedError<N, F>;
+}
+
+/**
+ * An error created by the class from {@link defineError}.
+ */
+export type DefinedError<N extends string, F> =
+  & Error
+  & { readonly name: N }
+  & Readonly<F>;
+
+/**
+ * Values describing condition on an error instance. There are four types of predicates:
+ *
+ * 1. Error constructor, like `SyntaxError` or `TypeError`
+ * 2. Error predicate function, like `(e) => e instanceof TypeError && e.message.includes("ERR_INVALID_URL")`
+ * 3. Error pattern, like `{ code: "ENOENT" }` or `{ name: "AbortError" }`. See {@link ErrorPattern} for details.
+ * 4. Union of the above, like `[SyntaxError, TypeError, (e) => e.name === "URLError"]`
+ */
+export type ErrorPredicate<E> =
+  | ErrorConstructorPredicate<E>
+  | ErrorPredicateFunction<E>
+  | ErrorPattern
+  | ErrorUnionPredicate<E>;
+export type ErrorConstructorPredicate<out E> = new (...args: never[]) => E;
+export type ErrorPredicateFunction<out E> = (e: unknown) => e is E;
+export type ErrorUnionPredicate<out E> = readonly ErrorPredicate<E>[];
+
+/**
+ * A declarative description of the shape of an error.
+ *
+ * An error matches the pattern if it is an object and each of the fields matches:
+ *
+ * - A primitive value matches the same value, like `{ code: "ENOENT" }`
+ * - A regular expression matches a string containing it, like `{ message: /timed out/ }`
+ * - A nested pattern matches recursively, like `{ response: { status: 404 } }`
+ *
+ * Fields can be anything accessible as a property, including getters on the prototype such as `DOMException#name`.
+ */
+export type ErrorPattern = { readonly [key: string]: ErrorPatternField };
+export type ErrorPatternField =
+  | string
+  | number
+  | bigint
+  | boolean
+  | symbol
+  | null
+  | undefined
+  | RegExp
+  | ErrorPattern;
+
+/**
+ * The type of errors matching the predicate of type `P`.
+ *
+ * @example
+ *   ```typescript
+ *   type A = MatchedError<typeof SyntaxError>; // => SyntaxError
+ *   type B = MatchedError<{ code: "ENOENT"; message: RegExp }>; // => { code: "ENOENT"; message: string }
+ *   ```
+ */
+export type MatchedError<P> = P extends readonly (infer Q)[]
+  ? Q extends readonly (infer R)[] ? SingleMatchedError<R>
+  : SingleMatchedError<Q>
+  : SingleMatchedError<P>;
+// The union case above is unrolled to avoid infinitely deep instantiation;
+// unions nested more deeply are not tracked.
+type SingleMatchedError<P> = P extends ErrorConstructorPredicate<infer E> ? E
+  : P extends ErrorPredicateFunction<infer E> ? E
+  : P extends ErrorPattern ? PatternMatchedError<P>
+  : never;
+// A pattern with an index signature (i.e. ErrorPattern itself) only arises from
+// ErrorPredicate<E> being expanded; it does not contribute to the result.
+type PatternMatchedError<P> = string extends keyof P ? never
+  : {
+    [K in keyof P]: P[K] extends RegExp ? string
+      : P[K] extends ErrorPattern ? PatternMatchedError<P[K]>
+      : P[K];
+  };
+
+/**
+ * The type of errors remaining after those matching the predicate of type `P` are handled.
+ *
+ * Note that a pattern containing a regular expression does not narrow the type,
+ * as it may leave some of the errors of the type unmatched.
+ * Also note that error types are compared structurally as usual in TypeScript:
+ * error classes without their own fields are indistinguishable from each other.
+ *
+ * @example
+ *   ```typescript
+ *   type A = UnmatchedError<NotFoundError | ConflictError, typeof NotFoundError>; // => ConflictError
+ *   type B = UnmatchedError<{ code: "A" } | { code: "B" }, { code: "A" }>; // => { code: "B" }
+ *   ```
+ */
+export type UnmatchedError<E, P> = Exclude<
+  E,
+  P extends readonly (infer Q)[]
+    ? Q extends readonly (infer R)[] ? SingleExhaustedError<R>
+    : SingleExhaustedError<Q>
+    : SingleExhaustedError<P>
+>;
+type SingleExhaustedError<P> = P extends ErrorPattern
+  ? PatternHasRegExp<P> extends true ? never : PatternMatchedError<P>
+  : SingleMatchedError<P>;
+type PatternHasRegExp<P> = true extends {
+  [K in keyof P]: P[K] extends RegExp ? true
+    : P[K] extends ErrorPattern ? PatternHasRegExp<P[K]>
+    : false;
+}[keyof P] ? true
+  : false;
+
+/**
+ * Evaluates the predicate in the form of {@link ErrorPredicate}.
+ *
+ * This function is exported for convenience, but you usually don't need to call it directly.
+ * See {@link TryChain.case} and {@link TryChain.pick} for the typical usage.
+ *
+ * @param e the error value to test
+ * @param pred the predicate
+ * @returns whether the predicate matches
+ */
+export function isErrorOf<const P extends ErrorPredicate<unknown>>(
+  e: unknown,
+  pred: P,
+): e is MatchedError<P> {
+  return matchesError(e, pred);
+}
+
+function matchesError(e: unknown, pred: ErrorPredicate<unknown>): boolean {
+  if (typeof pred === "function") {
+    if (isConstructor(pred)) {
+      return e instanceof pred;
+    } else {
+      return (pred as ErrorPredicateFunction<unknown>)(e);
+    }
+  } else if (Array.isArray(pred)) {
+    return pred.some((p) => matchesError(e, p));
+  } else if (typeof pred === "object" && pred !== null) {
+    return matchesPattern(e, pred as ErrorPattern);
+  } else {
+    throw new Error("Invalid predicate");
+  }
+}
+
+// Tells the classes from the guard functions, which also have a prototype unless they are arrow functions.
+function isConstructor(pred: ErrorPredicate<unknown> & object): boolean {
+  const prototype = (pred as { prototype?: unknown }).prototype;
+  return typeof prototype === "object" && prototype !== null &&
+    (prototype instanceof Error ||
+      // Subclasses, including those of Error from other realms
+      Object.getPrototypeOf(prototype) !== Object.prototype ||
+      // Base classes, which cannot be called as a function
+      /^class\b/.test(Function.prototype.toString.call(pred)));
+}
+
+function matchesPattern(value: unknown, pattern: ErrorPattern): boolean {
+  if (typeof value !== "object" && typeof value !== "function" || !value) {
+    return false;
+  }
+  return Object.keys(pattern).every((key) => {
+    const expected = pattern[key];
+    const actual = (value as Record<string, unknown>)[key];
+    if (expected instanceof RegExp) {
+      // search() is not affected by lastIndex of a global or sticky RegExp
+      return typeof actual === "string" && actual.search(expected) !== -1;
+    } else if (typeof expected === "object" && expected !== null) {
+      return matchesPattern(actual, expected);
+    } else {
+      return actual === expected;
+    }
+  });
+}
+
+/**
+ * Creates a predicate that matches if the error, or any error it originates from, matches the given predicate.
+ *
+ * Errors are searched in the same way as {@link walkErrors}, i.e. the error itself,
+ * its `cause` chain and the members of `AggregateError`s and `SuppressedError`s.
+ *
+ * @param pred the predicate to test against each error in the tree
+ * @returns the new predicate
+ *
+ * @example
+ *   ```typescript
+ *   const config = Try(() => loadConfig(path))
+ *     .pick(causedBy(SyntaxError))
+ *     .done(() => defaultConfig);
+ *   ```
+ */
+export function causedBy(
+  pred: ErrorPredicate<unknown>,
+): ErrorPredicateFunction<unknown> {
+  return (e: unknown): e is unknown => findError(e, pred) !== undefined;
+}
+
+/**
+ * Finds the first error matching the predicate among the error and the errors it originates from.
+ *
+ * Errors are searched in the same order as {@link walkErrors}.
+ *
+ * @param e the error to search from
+ * @param pred the predicate. See {@link ErrorPredicate} for details.
+ * @returns the error found, if any
+ */
+export function findError<const P extends ErrorPredicate<unknown>>(
+  e: unknown,
+  pred: P,
+): MatchedError<P> | undefined {
+  for (const error of walkErrors(e)) {
+    if (isErrorOf(error, pred)) {
+      return error;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Iterates over the `cause` chain of the error, starting from the error itself.
+ *
+ * Cycles in the chain are detected and each error is visited only once.
+ *
+ * @param e the error to start from
+ * @returns the iterator over the error and its causes
+ *
+ * @example
+ *   ```typescript
+ *   const rootCause = [...causeChain(e)].at(-1);
+ *   ```
+ */
+export function* causeChain(e: unknown): Generator<unknown, void, undefined> {
+  const seen = new Set<unknown>();
+  let current = e;
+  while (!seen.has(current)) {
+    seen.add(current);
+    yield current;
+    if (!hasCause(current)) {
+      return;
+    }
+    current = current.cause;
+  }
+}
+
+/**
+ * Iterates over the error and all the errors it originates from, in depth-first order.
+ *
+ * The tree consists of the `cause` of each error, the members (`errors`) of each `AggregateError`,
+ * and the two errors (`error` and `suppressed`) of each `SuppressedError`.
+ * Cycles are detected and each error is visited only once.
+ *
+ * @param e the error to start from
+ * @returns the iterator over the errors in the tree
+ */
+export function* walkErrors(e: unknown): Generator<unknown, void, undefined> {
+  const seen = new Set<unknown>();
+  const stack: unknown[] = [e];
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (seen.has(current)) {
+      continue;
+    }
+    seen.add(current);
+    yield current;
+    const children: unknown[] = [];
+    if (hasCause(current)) {
+      children.push(current.cause);
+    }
+    if (current instanceof AggregateError) {
+      children.push(...current.errors);
+    }
+    if (isSuppressedError(current)) {
+      children.push(current.error, current.suppressed);
+    }
+    stack.push(...children.reverse());
+  }
+}
+
+function hasCause(e: unknown): e is { cause: unknown } {
+  return typeof e === "object" && e !== null && "cause" in e;
+}
+
+function withCause<F>(error: F, cause: unknown): F {
+  if (
+    (typeof error === "object" && error !== null ||
+      typeof error === "function") &&
+    !Object.hasOwn(error, "cause") && Object.isExtensible(error)
+  ) {
+    // Same attributes as the one installed by the Error constructor
+    Object.defineProperty(error, "cause", {
+      value: cause,
+      writable: true,
+      enumerable: false,
+      configurable: true,
+    });
   }
+  return error;
 }
 
 /**
@@ -0,0 +1,230 @@
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert";
+import type { Clock } from "./exception.ts";
+import { type Release, Semaphore, TokenBucket, withLimiter } from "./limit.ts";
+
+Deno.test("Limiters reject invalid options", () => {
+  assertThrows(() => new Semaphore(0), RangeError, "Invalid number of permits");
+  assertThrows(() => new Semaphore(NaN), RangeError);
+  assertThrows(
+    () => new TokenBucket({ capacity: 0, interval: 100 }),
+    RangeError,
+    "Invalid capacity",
+  );
+  assertThrows(
+    () => new TokenBucket({ capacity: 1, interval: 0 }),
+    RangeError,
+    "Invalid interval",
+  );
+});
+
+Deno.test("Semaphore hands over the permission in the order of arrival", async () => {
+  const semaphore = new Semaphore(1);
+  const order: string[] = [];
+  const release1 = await semaphore.acquire();
+  assertEquals(semaphore.available, 0);
+  const second = semaphore.acquire().then((release) => {
+    order.push("second");
+    return release;
+  });
+  const third = semaphore.acquire().then((release) => {
+    order.push("third");
+    return release;
+  });
+  assertEquals(semaphore.waiting, 2);
+
+  release1();
+  const release2 = await second;
+  assertEquals(order, ["second"]);
+  assertEquals(semaphore.available, 0);
+  assertEquals(semaphore.waiting, 1);
+
+  // Releasing twice has no effect
+  release1();
+  await flush();
+  assertEquals(order, ["second"]);
+  assertEquals(semaphore.waiting, 1);
+
+  release2();
+  const release3 = await third;
+  assertEquals(order, ["second", "third"]);
+  assertEquals(semaphore.available, 0);
+  assertEquals(semaphore.waiting, 0);
+  release3();
+  assertEquals(semaphore.available, 1);
+});
+
+Deno.test("Semaphore lets a waiter give up from the middle of the queue", async () => {
+  const semaphore = new Semaphore(1);
+  const release1 = await semaphore.acquire();
+  const controller = new AbortController();
+  const order: string[] = [];
+  const track = (name: string) => (release: Release) => {
+    order.push(name);
+    release();
+  };
+  const second = semaphore.acquire().then(track("second"));
+  const third = semaphore.acquire(controller.signal).then(track("third"));
+  const fourth = semaphore.acquire().then(track("fourth"));
+  assertEquals(semaphore.waiting, 3);
+
+  controller.abort(new Error("gave up"));
+  await assertRejects(() => third, Error, "gave up");
+  assertEquals(semaphore.waiting, 2);
+
+  release1();
+  await Promise.all([second, fourth]);
+  assertEquals(order, ["second", "fourth"]);
+  assertEquals(semaphore.available, 1);
+
+  // Already aborted
+  await assertRejects(() => semaphore.acquire(controller.signal));
+  assertEquals(semaphore.available, 1);
+  assertEquals(semaphore.waiting, 0);
+});
+
+Deno.test("TokenBucket refills the tokens at the interval", async () => {
+  const clock = new ManualClock();
+  const bucket = new TokenBucket({ capacity: 2, interval: 100, clock });
+  assertEquals(bucket.tokens, 2);
+  await bucket.acquire();
+  await bucket.acquire();
+  assertEquals(bucket.tokens, 0);
+
+  clock.advance(50);
+  assertEquals(bucket.tokens, 0.5);
+  let acquired = false;
+  const third = bucket.acquire().then(() => acquired = true);
+  assertEquals(bucket.waiting, 1);
+  // Waits for the rest of the token
+  assertEquals(clock.timers, [100]);
+
+  clock.advance(49);
+  await flush();
+  assertEquals(acquired, false);
+  clock.advance(1);
+  await third;
+  assertEquals(bucket.waiting, 0);
+  assertEquals(bucket.tokens, 0);
+  assertEquals(clock.timers, []);
+
+  // Never more than the capacity
+  clock.advance(1000);
+  assertEquals(bucket.tokens, 2);
+});
+
+Deno.test("TokenBucket stops its timer when nobody waits", async () => {
+  const clock = new ManualClock();
+  const bucket = new TokenBucket({ capacity: 1, interval: 100, clock });
+  await bucket.acquire();
+  const controller = new AbortController();
+  const waiting = bucket.acquire(controller.signal);
+  assertEquals(clock.timers, [100]);
+  controller.abort(new Error("gave up"));
+  await assertRejects(() => waiting, Error, "gave up");
+  assertEquals(bucket.waiting, 0);
+  assertEquals(clock.timers, []);
+});
+
+Deno.test("TokenBucket lets a waiter give up from the middle of the queue", async () => {
+  const clock = new ManualClock();
+  const bucket = new TokenBucket({ capacity: 1, interval: 100, clock });
+  await bucket.acquire();
+  const controller = new AbortController();
+  const order: string[] = [];
+  const first = bucket.acquire().then(() => order.push("first"));
+  const second = bucket.acquire(controller.signal).then(() =>
+    order.push("second")
+  );
+  const third = bucket.acquire().then(() => order.push("third"));
+  assertEquals(bucket.waiting, 3);
+
+  controller.abort(new Error("gave up"));
+  await assertRejects(() => second, Error, "gave up");
+  assertEquals(bucket.waiting, 2);
+  // Others are still waiting for the timer
+  assertEquals(clock.timers, [100]);
+
+  clock.advance(100);
+  await first;
+  assertEquals(order, ["first"]);
+  assertEquals(bucket.waiting, 1);
+  assertEquals(clock.timers, [200]);
+  clock.advance(100);
+  await third;
+  assertEquals(order, ["first", "third"]);
+  assertEquals(bucket.waiting, 0);
+  assertEquals(bucket.tokens, 0);
+});
+
+Deno.test("withLimiter waits for the limiter and releases after the call", async () => {
+  const semaphore = new Semaphore(1);
+  const calls: string[] = [];
+  const greet = withLimiter(
+    semaphore,
+    function (this: { name: string }, greeting: string, _signal?: AbortSignal) {
+      calls.push(`${greeting} ${this.name}`);
+      return greeting === "fail"
+        ? Promise.reject(new Error("failed"))
+        : Promise.resolve(greeting);
+    },
+  );
+  const self = { name: "Alice" };
+  assertEquals(await greet.call(self, "hello"), "hello");
+  assertEquals(semaphore.available, 1);
+
+  // Released even when the function fails
+  await assertRejects(() => greet.call(self, "fail"), Error, "failed");
+  assertEquals(semaphore.available, 1);
+
+  // Waiting is cancelled with the signal among the arguments
+  const release = await semaphore.acquire();
+  const controller = new AbortController();
+  const waiting = greet.call(self, "bye", controller.signal);
+  await flush();
+  assertEquals(semaphore.waiting, 1);
+  controller.abort(new Error("gave up"));
+  await assertRejects(() => waiting, Error, "gave up");
+  assertEquals(semaphore.waiting, 0);
+  release();
+  assertEquals(semaphore.available, 1);
+  assertEquals(calls, ["hello Alice", "fail Alice"]);
+});
+
+// Lets the pending promises settle
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+class ManualClock implements Clock {
+  private _now = 0;
+  private _timers: { at: number; resolve: () => void }[] = [];
+
+  // The times of the pending timers
+  get timers(): number[] {
+    return this._timers.map((timer) => timer.at);
+  }
+
+  now(): number {
+    return this._now;
+  }
+
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = { at: this._now + ms, resolve };
+      this._timers.push(timer);
+      signal?.addEventListener("abort", () => {
+        this._timers = this._timers.filter((other) => other !== timer);
+        reject(signal.reason);
+      });
+    });
+  }
+
+  advance(ms: number): void {
+    this._now += ms;
+    const due = this._timers.filter((timer) => timer.at <= this._now);
+    this._timers = this._timers.filter((timer) => timer.at > this._now);
+    for (const timer of due) {
+      timer.resolve();
+    }
+  }
+}
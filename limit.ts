@@ -0,0 +1,304 @@
+import { type Clock, systemClock } from "./exception.ts";
+
+/**
+ * Returns the permission obtained by {@link Limiter.acquire}. Calling it more than once has no effect.
+ */
+export type Release = () => void;
+
+/**
+ * Limits how many or how often the tasks run, shared among the tasks to limit.
+ *
+ * The waiting tasks are served in the order of their arrival.
+ */
+export interface Limiter {
+  /**
+   * Waits for the permission to run a task.
+   *
+   * @param signal the signal to give up waiting. The promise is rejected with its reason once aborted.
+   * @returns the promise resolving to the function to call when the task is finished
+   */
+  acquire(signal?: AbortSignal): Promise<Release>;
+}
+
+type Waiter = {
+  readonly resolve: (release: Release) => void;
+  readonly reject: (reason: unknown) => void;
+  readonly signal: AbortSignal | undefined;
+  readonly onAbort: () => void;
+};
+
+// The waiting tasks in the order of their arrival
+class WaitQueue {
+  private _waiters: Waiter[] = [];
+
+  get length(): number {
+    return this._waiters.length;
+  }
+
+  push(
+    signal: AbortSignal | undefined,
+    onRemoved: () => void,
+  ): Promise<Release> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          this._waiters = this._waiters.filter((other) => other !== waiter);
+          reject(signal!.reason);
+          onRemoved();
+        },
+      };
+      this._waiters.push(waiter);
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+    });
+  }
+
+  shift(release: Release): void {
+    const waiter = this._waiters.shift()!;
+    waiter.signal?.removeEventListener("abort", waiter.onAbort);
+    waiter.resolve(release);
+  }
+}
+
+/**
+ * A {@link Limiter} which allows a fixed number of tasks to run at the same time.
+ *
+ * @example
+ *   ```typescript
+ *   const db = new Semaphore(4);
+ *   const users = await Promise.all(ids.map((id) =>
+ *     Do(id)
+ *       .pipeAwait((it) => fetchUser(it), { limiter: db })
+ *       .done()
+ *   ));
+ *   ```
+ */
+export class Semaphore implements Limiter {
+  /**
+   * The number of tasks allowed to run at the same time.
+   */
+  readonly permits: number;
+  private _available: number;
+  private readonly _queue = new WaitQueue();
+
+  /**
+   * @param permits the number of tasks allowed to run at the same time
+   */
+  constructor(permits: number) {
+    if (!(permits >= 1)) {
+      throw new RangeError(`Invalid number of permits: ${permits}`);
+    }
+    this.permits = permits;
+    this._available = permits;
+  }
+
+  /**
+   * The number of tasks which can start without waiting.
+   */
+  get available(): number {
+    return this._available;
+  }
+
+  /**
+   * The number of tasks waiting for the permission.
+   */
+  get waiting(): number {
+    return this._queue.length;
+  }
+
+  acquire(signal?: AbortSignal): Promise<Release> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (this._available > 0 && this._queue.length === 0) {
+      this._available--;
+      return Promise.resolve(this._release());
+    }
+    return this._queue.push(signal, () => {});
+  }
+
+  private _release(): Release {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      if (this._queue.length > 0) {
+        // Hand over the permission directly, so that no one can cut in
+        this._queue.shift(this._release());
+      } else {
+        this._available++;
+      }
+    };
+  }
+}
+
+/**
+ * The options for {@link TokenBucket}.
+ */
+export interface TokenBucketOptions {
+  /**
+   * The maximum number of tokens, which is also the size of the bursts. The bucket is full at first.
+   */
+  readonly capacity: number;
+  /**
+   * The time to add one token, in milliseconds.
+   */
+  readonly interval: number;
+  /**
+   * The source of time. Defaults to {@link systemClock}.
+   */
+  readonly clock?: Clock | undefined;
+}
+
+/**
+ * A {@link Limiter} which allows the tasks to start at a fixed rate, with bursts up to its capacity.
+ *
+ * Each task takes a token, and the tokens are added one by one at the interval. Releasing has no effect.
+ *
+ * @example
+ *   ```typescript
+ *   // 10 requests per second, in bursts of up to 5
+ *   const api = new TokenBucket({ capacity: 5, interval: 100 });
+ *   const result = await Do(query)
+ *     .pipeAwait((it, { signal }) => search(it, { signal }), { limiter: api })
+ *     .done({ signal: request.signal });
+ *   ```
+ */
+export class TokenBucket implements Limiter {
+  /**
+   * The maximum number of tokens.
+   */
+  readonly capacity: number;
+  /**
+   * The time to add one token, in milliseconds.
+   */
+  readonly interval: number;
+  private readonly _clock: Clock;
+  private _tokens: number;
+  private _updatedAt: number;
+  private readonly _queue = new WaitQueue();
+  private _timer: AbortController | undefined = undefined;
+
+  /**
+   * @param options the capacity and the rate. See {@link TokenBucketOptions}.
+   */
+  constructor(options: TokenBucketOptions) {
+    const { capacity, interval, clock = systemClock } = options;
+    if (!(capacity >= 1)) {
+      throw new RangeError(`Invalid capacity: ${capacity}`);
+    }
+    if (!(interval > 0)) {
+      throw new RangeError(`Invalid interval: ${interval}`);
+    }
+    this.capacity = capacity;
+    this.interval = interval;
+    this._clock = clock;
+    this._tokens = capacity;
+    this._updatedAt = clock.now();
+  }
+
+  /**
+   * The number of tokens now, possibly fractional.
+   */
+  get tokens(): number {
+    this._refill();
+    return this._tokens;
+  }
+
+  /**
+   * The number of tasks waiting for tokens.
+   */
+  get waiting(): number {
+    return this._queue.length;
+  }
+
+  acquire(signal?: AbortSignal): Promise<Release> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    this._refill();
+    if (this._tokens >= 1 && this._queue.length === 0) {
+      this._tokens--;
+      return Promise.resolve(noRelease);
+    }
+    const promise = this._queue.push(signal, () => {
+      if (this._queue.length === 0) {
+        // Nobody is waiting for the timer
+        this._timer?.abort();
+        this._timer = undefined;
+      }
+    });
+    this._schedule();
+    return promise;
+  }
+
+  private _refill(): void {
+    const now = this._clock.now();
+    this._tokens = Math.min(
+      this.capacity,
+      this._tokens + (now - this._updatedAt) / this.interval,
+    );
+    this._updatedAt = now;
+  }
+
+  private _schedule(): void {
+    if (this._timer !== undefined) {
+      return;
+    }
+    const timer = new AbortController();
+    this._timer = timer;
+    const wait = Math.max((1 - this._tokens) * this.interval, 0);
+    this._clock.sleep(wait, timer.signal).then(() => {
+      this._timer = undefined;
+      this._refill();
+      while (this._tokens >= 1 && this._queue.length > 0) {
+        this._tokens--;
+        this._queue.shift(noRelease);
+      }
+      if (this._queue.length > 0) {
+        this._schedule();
+      }
+    }, () => {});
+  }
+}
+
+const noRelease: Release = () => {};
+
+/**
+ * Wraps an asynchronous function so that each call waits for the permission of the limiter.
+ *
+ * If one of the arguments is an `AbortSignal`, waiting is also cancelled with it.
+ * This works well with `chainSignal` given to `rcallAwait`.
+ *
+ * @param limiter the limiter to wait for. See {@link Limiter}.
+ * @param f the asynchronous function to limit
+ * @returns the limited function, having the same `this` and parameters as `f`
+ *
+ * @example
+ *   ```typescript
+ *   const fetchLimited = withLimiter(new Semaphore(4), fetchText);
+ *   const text = await Do(url)
+ *     .rcallAwait(fetchLimited, chainSignal)
+ *     .done({ signal });
+ *   ```
+ */
+export function withLimiter<This, Args extends unknown[], R>(
+  limiter: Limiter,
+  f: (this: This, ...args: Args) => Promise<R>,
+): (this: This, ...args: Args) => Promise<R> {
+  return async function (this: This, ...args: Args): Promise<R> {
+    const signal = args.find((arg) => arg instanceof AbortSignal) as
+      | AbortSignal
+      | undefined;
+    const release = await limiter.acquire(signal);
+    try {
+      return await f.apply(this, args);
+    } finally {
+      release();
+    }
+  };
+}
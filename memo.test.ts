@@ -0,0 +1,112 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { LruStore, memoize } from "./memo.ts";
+
+Deno.test("memoize caches the outcomes by key", async () => {
+  const calls: string[] = [];
+  const load = memoize((it: string) => it, (it) => {
+    calls.push(it);
+    return it === "bad"
+      ? Promise.reject(new Error("failed"))
+      : Promise.resolve(it.toUpperCase());
+  }, { cacheErrors: true });
+  assertEquals(await Promise.all([load("a"), load("a"), load("b")]), [
+    "A",
+    "A",
+    "B",
+  ]);
+  assertEquals(await load("a"), "A");
+  await assertRejects(() => load("bad"), Error, "failed");
+  await assertRejects(() => load("bad"), Error, "failed");
+  assertEquals(calls, ["a", "b", "bad"]);
+});
+
+Deno.test("LruStore evicts the least recently used entries", () => {
+  const store = new LruStore<string, number>(2);
+  const entry = (value: number) => ({
+    result: { type: "Ok" as const, value },
+    expires: Infinity,
+  });
+  store.set("a", entry(1));
+  store.set("b", entry(2));
+  store.get("a");
+  store.set("c", entry(3));
+  assertEquals(store.size, 2);
+  assertEquals(store.get("b"), undefined);
+  assertEquals(store.get("a")?.result, { type: "Ok", value: 1 });
+});
+
+Deno.test("memoize rejects only the aborted caller", async () => {
+  const signals: AbortSignal[] = [];
+  const release = Promise.withResolvers<void>();
+  const load = memoize(
+    (it: string) => it,
+    async (it, { signal }: { signal: AbortSignal }) => {
+      signals.push(signal);
+      await release.promise;
+      return it.toUpperCase();
+    },
+  );
+  const client1 = new AbortController();
+  const client2 = new AbortController();
+  const first = load("a", { signal: client1.signal });
+  const second = load("a", { signal: client2.signal });
+  client1.abort(new Error("client1 gone"));
+  await assertRejects(() => first, Error, "client1 gone");
+  assertEquals(signals.length, 1);
+  assertEquals(signals[0].aborted, false);
+  release.resolve();
+  assertEquals(await second, "A");
+
+  // Already aborted
+  await assertRejects(
+    () => load("b", { signal: client1.signal }),
+    Error,
+    "client1 gone",
+  );
+  assertEquals(signals.length, 1);
+});
+
+Deno.test("memoize aborts the shared call once all the callers are aborted", async () => {
+  const signals: AbortSignal[] = [];
+  const load = memoize(
+    (it: string) => it,
+    (it, { signal }: { signal: AbortSignal }) => {
+      signals.push(signal);
+      return signals.length === 1
+        ? new Promise<string>((_, reject) =>
+          signal.addEventListener("abort", () => reject(signal.reason))
+        )
+        : Promise.resolve(it.toUpperCase());
+    },
+    { cacheErrors: true },
+  );
+  const client1 = new AbortController();
+  const client2 = new AbortController();
+  const first = load("a", { signal: client1.signal });
+  const second = load("a", { signal: client2.signal });
+  // Let the shared call start
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  client1.abort(new Error("client1 gone"));
+  assertEquals(signals[0].aborted, false);
+  client2.abort(new Error("client2 gone"));
+  assertEquals(signals[0].aborted, true);
+  await assertRejects(() => first, Error, "client1 gone");
+  await assertRejects(() => second, Error, "client2 gone");
+
+  // The aborted call is neither shared nor cached
+  assertEquals(await load("a", { signal: new AbortController().signal }), "A");
+  assertEquals(signals.length, 2);
+});
+
+Deno.test("memoize shares the pending calls between the functions sharing a cache", async () => {
+  const cache = new LruStore<string, string>();
+  const calls: string[] = [];
+  const f = (it: string) => {
+    calls.push(it);
+    return Promise.resolve(it.toUpperCase());
+  };
+  const load1 = memoize((it: string) => it, f, { cache });
+  const load2 = memoize((it: string) => it, f, { cache });
+  assertEquals(await Promise.all([load1("a"), load2("a")]), ["A", "A"]);
+  assertEquals(calls, ["a"]);
+});
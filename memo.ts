@@ -0,0 +1,258 @@
+import { type Clock, type Result, systemClock } from "./exception.ts";
+
+/**
+ * A cached outcome of a memoized function, stored in {@link MemoStore}.
+ */
+export type MemoEntry<V> = {
+  readonly result: Result<V, unknown>;
+  /** The time when the entry expires, in milliseconds as in `clock.now()` */
+  readonly expires: number;
+};
+
+/**
+ * The storage of the cached outcomes for {@link memoize}.
+ *
+ * The methods may also be asynchronous, so that external stores can be used.
+ * Expired entries are simply ignored, and overwritten by the next outcome.
+ */
+export interface MemoStore<K, V> {
+  /**
+   * Finds the entry for the key.
+   */
+  get(
+    key: K,
+  ): MemoEntry<V> | undefined | PromiseLike<MemoEntry<V> | undefined>;
+  /**
+   * Stores the entry for the key.
+   */
+  set(key: K, entry: MemoEntry<V>): void | PromiseLike<void>;
+}
+
+/**
+ * An in-memory {@link MemoStore} which evicts the least recently used entries.
+ *
+ * @example
+ *   ```typescript
+ *   const loadUser = memoize((id: string) => id, fetchUser, {
+ *     cache: new LruStore(100),
+ *   });
+ *   ```
+ */
+export class LruStore<K, V> implements MemoStore<K, V> {
+  /**
+   * The maximum number of entries to keep.
+   */
+  readonly maxSize: number;
+  private readonly _entries = new Map<K, MemoEntry<V>>();
+
+  /**
+   * @param maxSize the maximum number of entries to keep
+   */
+  constructor(maxSize: number = 1000) {
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * The number of entries kept.
+   */
+  get size(): number {
+    return this._entries.size;
+  }
+
+  get(key: K): MemoEntry<V> | undefined {
+    const entry = this._entries.get(key);
+    if (entry !== undefined) {
+      // Move it to the most recent position
+      this._entries.delete(key);
+      this._entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: K, entry: MemoEntry<V>): void {
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+    for (const oldest of this._entries.keys()) {
+      if (this._entries.size <= this.maxSize) {
+        break;
+      }
+      this._entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Removes all the entries.
+   */
+  clear(): void {
+    this._entries.clear();
+  }
+}
+
+/**
+ * The options for {@link memoize}.
+ */
+export interface MemoOptions<K, V> {
+  /**
+   * How long the outcomes are reused, in milliseconds. Defaults to forever.
+   */
+  readonly ttl?: number | undefined;
+  /**
+   * Where the outcomes are stored. Defaults to a new {@link LruStore} for each memoized function.
+   */
+  readonly cache?: MemoStore<K, V> | undefined;
+  /**
+   * Whether the rejections are also cached. Defaults to `false`, where the next call retries.
+   */
+  readonly cacheErrors?: boolean | undefined;
+  /**
+   * The source of time for `ttl`. Defaults to {@link systemClock}.
+   */
+  readonly clock?: Clock | undefined;
+}
+
+/**
+ * Wraps an asynchronous function so that its outcomes are cached by the key of the first argument.
+ *
+ * Concurrent calls with the same key share one pending call, which only sees the rest of the arguments given to the first one.
+ * The calls sharing a `cache` also share the pending calls, even across the memoized functions.
+ *
+ * When the last argument has a `signal`, like `StepContext` of `pipeAwait` in `do.ts`, each caller is rejected as soon as its own signal is aborted.
+ * The shared call receives a signal instead, which is aborted only when all the waiting callers have been aborted.
+ *
+ * @param key the function to compute the cache key from the first argument
+ * @param f the asynchronous function to memoize
+ * @param options the options like `ttl` and `cache`. See {@link MemoOptions}.
+ * @returns the memoized function
+ *
+ * @example
+ *   ```typescript
+ *   const loadConfig = memoize((name: string) => name, (name) => fetchConfig(name), { ttl: 60_000 });
+ *   const [a, b] = await Promise.all([loadConfig("app"), loadConfig("app")]); // Fetched once
+ *   ```
+ */
+export function memoize<T, Rest extends unknown[], K, V>(
+  key: (value: T) => K,
+  f: (value: T, ...rest: Rest) => Promise<V>,
+  options: MemoOptions<K, V> = {},
+): (value: T, ...rest: Rest) => Promise<V> {
+  const {
+    ttl = Infinity,
+    cache = new LruStore<K, V>(),
+    cacheErrors = false,
+    clock = systemClock,
+  } = options;
+  const pending = pendingOf<K, V>(cache);
+  return (value, ...rest) => {
+    const signal = signalOf(rest);
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    const k = key(value);
+    let call = pending.get(k);
+    if (call === undefined) {
+      const controller = new AbortController();
+      const args = signal === undefined
+        ? rest
+        : withSignal(rest, controller.signal);
+      const promise = (async () => {
+        const entry = await cache.get(k);
+        const result = entry !== undefined && entry.expires > clock.now()
+          ? entry.result
+          : await settle(() => f(value, ...args));
+        if (
+          result !== entry?.result && !controller.signal.aborted &&
+          (result.type === "Ok" || cacheErrors)
+        ) {
+          await cache.set(k, { result, expires: clock.now() + ttl });
+        }
+        if (result.type === "Err") {
+          throw result.error;
+        }
+        return result.value;
+      })().finally(() => {
+        if (pending.get(k) === call) {
+          pending.delete(k);
+        }
+      });
+      call = { promise, controller, waiting: 0 };
+      pending.set(k, call);
+    }
+    call.waiting++;
+    return signal === undefined ? call.promise : wait(k, call, signal);
+  };
+
+  // Rejects with the signal of the caller, and aborts the shared call once nobody waits for it
+  function wait(
+    k: K,
+    call: PendingCall<V>,
+    signal: AbortSignal,
+  ): Promise<V> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal.reason);
+        if (--call.waiting === 0) {
+          // The next caller starts over
+          if (pending.get(k) === call) {
+            pending.delete(k);
+          }
+          call.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      call.promise.then(resolve, reject).finally(() =>
+        signal.removeEventListener("abort", onAbort)
+      );
+    });
+  }
+}
+
+type PendingCall<V> = {
+  readonly promise: Promise<V>;
+  readonly controller: AbortController;
+  // The callers not aborted yet, including those without a signal
+  waiting: number;
+};
+
+// The pending calls are kept next to the store, so that the functions sharing it also share them.
+const pendingCalls = new WeakMap<
+  MemoStore<unknown, unknown>,
+  Map<unknown, PendingCall<unknown>>
+>();
+
+function pendingOf<K, V>(cache: MemoStore<K, V>): Map<K, PendingCall<V>> {
+  let pending = pendingCalls.get(cache as MemoStore<unknown, unknown>);
+  if (pending === undefined) {
+    pending = new Map();
+    pendingCalls.set(cache as MemoStore<unknown, unknown>, pending);
+  }
+  return pending as Map<K, PendingCall<V>>;
+}
+
+// Finds the signal in the last argument, like StepContext.
+function signalOf(rest: unknown[]): AbortSignal | undefined {
+  const last = rest[rest.length - 1] as { signal?: unknown } | null;
+  return typeof last === "object" && last !== null &&
+      last.signal instanceof AbortSignal
+    ? last.signal
+    : undefined;
+}
+
+function withSignal<Rest extends unknown[]>(
+  rest: Rest,
+  signal: AbortSignal,
+): Rest {
+  return [
+    ...rest.slice(0, -1),
+    { ...rest[rest.length - 1] as object, signal },
+  ] as Rest;
+}
+
+async function settle<V>(
+  f: () => Promise<V>,
+): Promise<Result<V, unknown>> {
+  try {
+    return { type: "Ok", value: await f() };
+  } catch (error) {
+    return { type: "Err", error };
+  }
+}
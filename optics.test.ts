@@ -0,0 +1,141 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "jsr:@std/assert";
+import { getIn, setIn, updateIn, updateInAsync } from "./optics.ts";
+
+type State = {
+  user?: { name: string; address?: { city: string } };
+  todos: { title: string; done: boolean }[];
+  settings: { theme: string };
+};
+
+const state: State = {
+  user: { name: "Alice", address: { city: "Paris" } },
+  todos: [{ title: "a", done: false }, { title: "b", done: false }],
+  settings: { theme: "dark" },
+};
+
+Deno.test("getIn follows the path like optional chaining", () => {
+  assertEquals(getIn(state, ["user", "address", "city"]), "Paris");
+  assertEquals(getIn(state, ["todos", 1, "title"]), "b");
+  assertEquals(getIn(state, []), state);
+  const anonymous: State = { ...state, user: undefined };
+  assertEquals(getIn(anonymous, ["user", "name"]), undefined);
+});
+
+Deno.test("updateIn copies only along the path", () => {
+  const next = updateIn(state, ["user", "address", "city"], (it) => it + "!");
+  assertEquals(next.user?.address?.city, "Paris!");
+  assertEquals(state.user?.address?.city, "Paris");
+  assert(next !== state && next.user !== state.user);
+  // The untouched branches are shared
+  assert(next.todos === state.todos);
+  assert(next.settings === state.settings);
+});
+
+Deno.test("updateIn returns the same value when nothing changes", () => {
+  assert(updateIn(state, ["settings", "theme"], (it) => it) === state);
+  assert(setIn(state, ["user", "name"], "Alice") === state);
+  assert(setIn(state, [], state) === state);
+});
+
+Deno.test("updateIn follows array indexes", () => {
+  const next = setIn(state, ["todos", 1, "done"], true);
+  assert(Array.isArray(next.todos));
+  assertEquals(next.todos, [
+    { title: "a", done: false },
+    { title: "b", done: true },
+  ]);
+  assert(next.todos !== state.todos);
+  assert(next.todos[0] === state.todos[0]);
+  assertEquals(state.todos[1].done, false);
+});
+
+Deno.test("updateIn stops at a missing optional value", () => {
+  const anonymous: State = { ...state, user: undefined };
+  let called = false;
+  const next = updateIn(anonymous, ["user", "address", "city"], (it) => {
+    called = true;
+    return it;
+  });
+  assert(next === anonymous);
+  assertEquals(called, false);
+
+  // The last segment may be missing, and is added
+  const bob: State = { ...state, user: { name: "Bob" } };
+  const moved = setIn(bob, ["user", "address"], { city: "Tokyo" });
+  assertEquals(moved.user, { name: "Bob", address: { city: "Tokyo" } });
+});
+
+Deno.test("updateInAsync updates with an asynchronous function", async () => {
+  const next = await updateInAsync(
+    state,
+    ["settings", "theme"],
+    (it) => Promise.resolve(it.toUpperCase()),
+  );
+  assertEquals(next.settings, { theme: "DARK" });
+  assert(next.todos === state.todos);
+
+  await assertRejects(
+    () =>
+      updateInAsync(
+        state,
+        ["settings", "theme"],
+        () => Promise.reject(new Error("failed")),
+      ),
+    Error,
+    "failed",
+  );
+  assertEquals(state.settings.theme, "dark");
+});
+
+Deno.test("updateIn copies plain objects only", () => {
+  const bare = Object.assign(Object.create(null), { a: 1, b: 2 });
+  const copied = setIn(bare as { a: number; b: number }, ["a"], 3);
+  assertEquals(Object.getPrototypeOf(copied), null);
+  assertEquals({ ...copied }, { a: 3, b: 2 });
+
+  class Point {
+    x = 1;
+  }
+  assertThrows(
+    () => setIn({ point: new Point() }, ["point", "x"], 2),
+    TypeError,
+    "Cannot copy an instance of Point",
+  );
+  const withDate = { at: new Date(0) };
+  assertThrows(
+    () => setIn(withDate, ["at", "toString"] as never, (() => "") as never),
+    TypeError,
+    "Cannot copy an instance of Date",
+  );
+  // Replacing the instance itself is fine
+  assertEquals(setIn(withDate, ["at"], new Date(1)).at.getTime(), 1);
+});
+
+Deno.test("updateIn treats __proto__ as an own property", () => {
+  const parsed = JSON.parse('{ "__proto__": { "a": 1 } }');
+  const next = setIn(parsed, ["__proto__", "a"] as never, 2 as never);
+  assertEquals(Object.getPrototypeOf(next), Object.prototype);
+  assertEquals(Object.getOwnPropertyDescriptor(next, "__proto__")?.value, {
+    a: 2,
+  });
+
+  const plain = { a: 1 };
+  const added = setIn(
+    plain,
+    ["__proto__"] as never,
+    { polluted: true } as never,
+  );
+  assertEquals(Object.getPrototypeOf(added), Object.prototype);
+  assertEquals((added as { polluted?: boolean }).polluted, undefined);
+  assertEquals(Object.keys(added), ["a", "__proto__"]);
+  // The prototype is not followed
+  assert(
+    setIn(plain, ["__proto__", "polluted"] as never, true as never) === plain,
+  );
+  assertEquals(({} as { polluted?: boolean }).polluted, undefined);
+});
@@ -0,0 +1,213 @@
+/**
+ * A segment of a {@link Path}: a property name, or an index of an array.
+ */
+export type PathKey = string | number;
+
+/**
+ * The paths into the value of type `T`, as tuples of property names and array indexes.
+ *
+ * Optional properties can also be followed; see {@link updateIn} for what happens when they are missing.
+ * Recursive types are followed up to a limited depth.
+ */
+export type Path<T, Depth extends unknown[] = []> = Depth["length"] extends 8
+  ? never
+  :
+    | []
+    | {
+      [K in KeyOf<T>]: [K, ...Path<ChildOf<T, K>, [...Depth, unknown]>];
+    }[KeyOf<T>];
+
+/**
+ * The type of the value at the path `P` in the value of type `T`.
+ *
+ * It includes `undefined` when the path goes through optional properties.
+ */
+export type ValueAt<T, P> = P extends readonly [infer K, ...infer Rest]
+  ? ValueAt<ChildOf<T, K>, Rest>
+  : T;
+
+type KeyOf<T> = T extends readonly unknown[] ? number
+  : T extends (...args: never[]) => unknown ? never
+  : T extends object ? Extract<keyof T, string>
+  : never;
+
+type ChildOf<T, K> = T extends null | undefined ? undefined
+  : T extends readonly (infer E)[] ? K extends number ? E : never
+  : K extends keyof T ? T[K]
+  : never;
+
+/**
+ * Reads the value at the path, like a chain of `?.` operators.
+ *
+ * @param value the value to read from
+ * @param path the property names and array indexes to follow. See {@link Path}.
+ * @returns the value at the path, or `undefined` if the path is cut by a missing value
+ *
+ * @example
+ *   ```typescript
+ *   const city = getIn(state, ["user", "address", "city"]);
+ *   ```
+ */
+export function getIn<T, const P extends Path<T>>(
+  value: T,
+  path: P,
+): ValueAt<T, P> {
+  const containers = containersOf(value, path);
+  return (containers?.[path.length]) as ValueAt<T, P>;
+}
+
+/**
+ * Replaces the value at the path, returning an updated copy. See {@link updateIn} for details.
+ *
+ * @param value the value to update
+ * @param path the property names and array indexes to follow. See {@link Path}.
+ * @param newValue the value to put at the path
+ * @returns the updated copy of the value
+ *
+ * @example
+ *   ```typescript
+ *   const next = setIn(state, ["user", "address", "city"], "Tokyo");
+ *   ```
+ */
+export function setIn<T, const P extends Path<T>>(
+  value: T,
+  path: P,
+  newValue: ValueAt<T, P>,
+): T {
+  return updateIn(value, path, () => newValue);
+}
+
+/**
+ * Updates the value at the path, returning an updated copy.
+ *
+ * Only the objects and arrays along the path are copied, and the rest is shared with the original value.
+ * The original value itself is returned if the value at the path is unchanged,
+ * or if the path is cut by a missing value, in which case the function is not called.
+ *
+ * Only arrays and plain objects are copied, with their own enumerable properties.
+ * Other objects along the path, like `Date`, `Map` or class instances, cannot be copied faithfully and are rejected with a `TypeError`.
+ * `"__proto__"` in the path is treated as an own property, never as the prototype.
+ *
+ * @param value the value to update
+ * @param path the property names and array indexes to follow. See {@link Path}.
+ * @param f the function to compute the new value at the path from the current one
+ * @returns the updated copy of the value
+ *
+ * @example
+ *   ```typescript
+ *   const next = updateIn(state, ["todos", 3, "done"], (it) => !it);
+ *   ```
+ */
+export function updateIn<T, const P extends Path<T>>(
+  value: T,
+  path: P,
+  f: (value: ValueAt<T, P>) => ValueAt<T, P>,
+): T {
+  const containers = containersOf(value, path);
+  if (containers === undefined) {
+    return value;
+  }
+  return rebuild(
+    containers,
+    path,
+    f(containers[path.length] as ValueAt<T, P>),
+  ) as T;
+}
+
+/**
+ * Updates the value at the path with an asynchronous function, returning an updated copy. See {@link updateIn} for details.
+ *
+ * @param value the value to update
+ * @param path the property names and array indexes to follow. See {@link Path}.
+ * @param f the asynchronous function to compute the new value at the path from the current one
+ * @returns the updated copy of the value
+ *
+ * @example
+ *   ```typescript
+ *   const next = await updateInAsync(state, ["user", "avatar"], (it) => resize(it));
+ *   ```
+ */
+export async function updateInAsync<T, const P extends Path<T>>(
+  value: T,
+  path: P,
+  f: (value: ValueAt<T, P>) => Promise<ValueAt<T, P>>,
+): Promise<T> {
+  const containers = containersOf(value, path);
+  if (containers === undefined) {
+    return value;
+  }
+  return rebuild(
+    containers,
+    path,
+    await f(containers[path.length] as ValueAt<T, P>),
+  ) as T;
+}
+
+// The values along the path, starting from the root and ending with the value at the path.
+// Returns undefined if the path is cut by null or undefined.
+function containersOf(
+  value: unknown,
+  path: readonly PathKey[],
+): unknown[] | undefined {
+  const containers = [value];
+  for (const key of path) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    // The prototype is not a property to follow
+    value = key === "__proto__" && !Object.hasOwn(value, key)
+      ? undefined
+      : (value as { readonly [key: PathKey]: unknown })[key];
+    containers.push(value);
+  }
+  return containers;
+}
+
+function rebuild(
+  containers: readonly unknown[],
+  path: readonly PathKey[],
+  newValue: unknown,
+): unknown {
+  if (Object.is(newValue, containers[path.length])) {
+    return containers[0];
+  }
+  for (let i = path.length - 1; i >= 0; i--) {
+    newValue = copyWith(containers[i] as object, path[i], newValue);
+  }
+  return newValue;
+}
+
+function copyWith(container: object, key: PathKey, child: unknown): object {
+  if (Array.isArray(container)) {
+    const copy = container.slice();
+    copy[key as number] = child;
+    return copy;
+  }
+  if (typeof container !== "object") {
+    throw new TypeError(`Cannot copy a ${typeof container}`);
+  }
+  const proto = Object.getPrototypeOf(container);
+  if (proto !== Object.prototype && proto !== null) {
+    throw new TypeError(
+      `Cannot copy an instance of ${
+        proto.constructor?.name || "an anonymous class"
+      }`,
+    );
+  }
+  const copy = Object.create(proto);
+  for (const [k, v] of Object.entries(container)) {
+    defineOwn(copy, k, v);
+  }
+  defineOwn(copy, key, child);
+  return copy;
+}
+
+// Unlike assignment, keeps "__proto__" as an own property instead of replacing the prototype
+function defineOwn(target: object, key: PathKey, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
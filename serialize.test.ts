@@ -0,0 +1,177 @@
+import { assert, assertEquals, assertThrows } from "jsr:@std/assert";
+import { defineError, RetryError } from "./exception.ts";
+import {
+  deserializeResult,
+  deserializeValue,
+  ErrorRegistry,
+  serializeResult,
+  serializeValue,
+} from "./serialize.ts";
+
+const NotFoundError = defineError(
+  "NotFoundError",
+  (fields: { resource: string }) => `${fields.resource} not found`,
+);
+
+// Through JSON, as across process boundaries
+function roundTrip(value: unknown, registry?: ErrorRegistry): unknown {
+  return deserializeValue(
+    JSON.parse(JSON.stringify(serializeValue(value, registry))),
+    registry,
+  );
+}
+
+Deno.test("Serialize Ok and Err results", () => {
+  assertEquals(
+    deserializeResult(serializeResult({ type: "Ok", value: { a: [1, "b"] } })),
+    { type: "Ok", value: { a: [1, "b"] } },
+  );
+  const result = deserializeResult(
+    serializeResult({ type: "Err", error: new TypeError("bad") }),
+  );
+  assert(result.type === "Err" && result.error instanceof TypeError);
+  assertEquals(result.error.message, "bad");
+});
+
+Deno.test("Serialize errors with their cause and fields", () => {
+  const error = Object.assign(
+    new RangeError("outer", { cause: new SyntaxError("inner") }),
+    { code: "E_RANGE", details: { limit: 10 } },
+  );
+  const restored = roundTrip(error);
+  assert(restored instanceof RangeError);
+  assertEquals(restored.message, "outer");
+  assertEquals(restored.stack, error.stack);
+  assertEquals(
+    { ...restored },
+    { code: "E_RANGE", details: { limit: 10 } },
+  );
+  assert(restored.cause instanceof SyntaxError);
+  assertEquals(restored.cause.message, "inner");
+  assert(!("cause" in (roundTrip(new Error("no cause")) as Error)));
+});
+
+Deno.test("Serialize AggregateError and RetryError with their members", () => {
+  const aggregate = roundTrip(
+    new AggregateError([new TypeError("a"), "b"], "two"),
+  );
+  assert(aggregate instanceof AggregateError);
+  assertEquals(aggregate.message, "two");
+  assert(aggregate.errors[0] instanceof TypeError);
+  assertEquals(aggregate.errors[1], "b");
+
+  const retry = roundTrip(new RetryError([new Error("1"), new Error("2")]));
+  assert(retry instanceof RetryError);
+  assertEquals(retry.errors.length, 2);
+  assertEquals((retry.cause as Error).message, "2");
+});
+
+Deno.test("Serialize errors of registered and unregistered classes", () => {
+  class ConflictError extends Error {}
+  const registry = new ErrorRegistry([ConflictError]).register(
+    NotFoundError,
+  );
+  const conflict = roundTrip(new ConflictError("conflict"), registry);
+  assert(conflict instanceof ConflictError);
+  const notFound = roundTrip(new NotFoundError({ resource: "user" }), registry);
+  assert(notFound instanceof NotFoundError);
+  assert(NotFoundError.is(notFound));
+  assertEquals(notFound.resource, "user");
+  assertEquals(notFound.message, "user not found");
+  assertEquals(notFound.name, "NotFoundError");
+
+  // Unregistered classes fall back to the nearest registered one
+  class SubConflictError extends ConflictError {}
+  const sub = roundTrip(new SubConflictError("sub"), registry);
+  assert(sub instanceof ConflictError && !(sub instanceof SubConflictError));
+  const plain = roundTrip(new ConflictError("unknown"));
+  assertEquals(Object.getPrototypeOf(plain), Error.prototype);
+
+  assertThrows(
+    () => registry.register(class ConflictError extends Error {}),
+    Error,
+    "Another error class is registered as ConflictError",
+  );
+});
+
+Deno.test("Serialize objects looking like the tagged ones", () => {
+  const value = { $error: { class: "Error", message: "fake", fields: {} } };
+  const serialized = serializeValue(value);
+  assertEquals(serialized, { $object: value });
+  assertEquals(deserializeValue(serialized), value);
+  const nested = { $object: { $error: "fake" } };
+  assertEquals(roundTrip(nested), nested);
+  assertEquals(roundTrip({ $error: 1, other: 2 }), { $error: 1, other: 2 });
+});
+
+Deno.test("Serialize objects through toJSON", () => {
+  const date = new Date("2024-01-02T03:04:05.000Z");
+  assertEquals(serializeValue({ date }), { date: "2024-01-02T03:04:05.000Z" });
+  assertEquals(serializeValue(Object.assign(Object.create(null), { a: 1 })), {
+    a: 1,
+  });
+});
+
+Deno.test("Serialize rejects non-plain objects and cycles", () => {
+  assertThrows(
+    () => serializeValue(new Map([[1, 2]])),
+    TypeError,
+    "Cannot serialize an instance of Map",
+  );
+  assertThrows(() => serializeValue({ items: new Set() }), TypeError);
+  class Point {
+    get x(): number {
+      return 1;
+    }
+  }
+  assertThrows(() => serializeValue(new Point()), TypeError, "Point");
+
+  const cyclic: { self?: unknown } = {};
+  cyclic.self = cyclic;
+  assertThrows(() => serializeValue(cyclic), TypeError, "cyclic");
+  const error = new Error("self");
+  error.cause = error;
+  assertThrows(() => serializeValue(error), TypeError, "cyclic");
+  // Shared references are not cycles
+  const shared = { a: 1 };
+  assertEquals(serializeValue([shared, shared]), [{ a: 1 }, { a: 1 }]);
+});
+
+Deno.test("Serialize rejects the values JSON cannot represent", () => {
+  for (const value of [undefined, () => 1, Symbol("s"), 1n]) {
+    assertThrows(() => serializeValue(value), TypeError, "Cannot serialize");
+    assertThrows(() => serializeValue({ a: [value] }), TypeError);
+  }
+  assertThrows(
+    () => serializeValue(Object.assign(new Error("e"), { id: 1n })),
+    TypeError,
+    "type bigint",
+  );
+});
+
+Deno.test("Deserialize keeps __proto__ as an own property", () => {
+  const value = deserializeValue(
+    JSON.parse('{ "__proto__": { "isAdmin": true }, "a": 1 }'),
+  ) as { isAdmin?: boolean };
+  assertEquals(Object.getPrototypeOf(value), Object.prototype);
+  assertEquals(value.isAdmin, undefined);
+  assertEquals(Object.keys(value), ["__proto__", "a"]);
+
+  const error = deserializeValue(JSON.parse(
+    '{ "$error": { "class": "TypeError", "message": "bad", "fields": { "__proto__": { "isAdmin": true } } } }',
+  )) as TypeError & { isAdmin?: boolean };
+  assert(error instanceof TypeError);
+  assertEquals(error.isAdmin, undefined);
+  assertEquals(Object.keys(error), ["__proto__"]);
+
+  // Round trip of such an own property
+  const own = JSON.parse('{ "__proto__": 1 }');
+  assertEquals(Object.keys(roundTrip(own) as object), ["__proto__"]);
+});
+
+Deno.test("Serialize keeps a cause of undefined", () => {
+  const restored = roundTrip(new Error("outer", { cause: undefined }));
+  assert(restored instanceof Error);
+  assert("cause" in restored);
+  assertEquals(restored.cause, undefined);
+});
@@ -0,0 +1,372 @@
+import { type Result, RetryError } from "./exception.ts";
+
+/**
+ * The JSON-compatible representation of a {@link Result}, produced by {@link serializeResult}.
+ */
+export type SerializedResult =
+  | { readonly type: "Ok"; readonly value: SerializedValue }
+  | { readonly type: "Err"; readonly error: SerializedValue };
+
+/**
+ * The JSON-compatible representation of a value possibly containing errors.
+ *
+ * Errors are represented as `{ $error: SerializedError }`.
+ */
+export type SerializedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | readonly SerializedValue[]
+  | { readonly [key: string]: SerializedValue };
+
+/**
+ * The JSON-compatible representation of an error.
+ */
+export type SerializedError = {
+  /** The name of the error class, as registered in {@link ErrorRegistry} */
+  readonly class: string;
+  readonly message: string;
+  readonly stack?: string;
+  readonly cause?: SerializedValue;
+  /** Whether the error has a `cause` of `undefined`, which `cause` cannot represent */
+  readonly undefinedCause?: true;
+  /** The members of an `AggregateError` */
+  readonly errors?: readonly SerializedValue[];
+  /** Other own enumerable properties of the error */
+  readonly fields: { readonly [key: string]: SerializedValue };
+};
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+const builtinErrorClasses: ErrorClass[] = [
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+  AggregateError,
+  RetryError,
+];
+
+/**
+ * A set of error classes to be restored by {@link deserializeResult}.
+ *
+ * The built-in error classes are registered from the beginning.
+ *
+ * @example
+ *   ```typescript
+ *   const registry = new ErrorRegistry([NotFoundError, ConflictError]);
+ *   worker.postMessage(serializeResult(Try(() => compute(input)).result, registry));
+ *   // In the other side:
+ *   const result = deserializeResult(message.data, registry);
+ *   ```
+ */
+export class ErrorRegistry {
+  private readonly _byName = new Map<string, ErrorClass>();
+  private readonly _byPrototype = new Map<object, string>();
+
+  /**
+   * @param classes the error classes to register in addition to the built-in ones
+   */
+  constructor(classes: Iterable<ErrorClass> = []) {
+    for (const cls of builtinErrorClasses) {
+      this.register(cls);
+    }
+    for (const cls of classes) {
+      this.register(cls);
+    }
+  }
+
+  /**
+   * Registers an error class.
+   *
+   * @param cls the error class
+   * @param name the name to identify the class in the serialized form. Defaults to the name of the class.
+   * @returns the registry itself
+   */
+  register(cls: ErrorClass, name: string = cls.name): this {
+    const existing = this._byName.get(name);
+    if (existing !== undefined && existing !== cls) {
+      throw new Error(`Another error class is registered as ${name}`);
+    }
+    this._byName.set(name, cls);
+    this._byPrototype.set(cls.prototype, name);
+    return this;
+  }
+
+  /**
+   * Finds the name of the nearest registered class of the error.
+   */
+  nameOf(error: Error): string {
+    for (
+      let proto = Object.getPrototypeOf(error);
+      proto !== null;
+      proto = Object.getPrototypeOf(proto)
+    ) {
+      const name = this._byPrototype.get(proto);
+      if (name !== undefined) {
+        return name;
+      }
+    }
+    return "Error";
+  }
+
+  /**
+   * Finds the class registered with the name.
+   */
+  classOf(name: string): ErrorClass | undefined {
+    return this._byName.get(name);
+  }
+}
+
+/**
+ * Converts a {@link Result} into a JSON-compatible form, so that it can cross worker or process boundaries.
+ *
+ * Errors are converted along with their `cause`, `errors` of `AggregateError`, and own fields.
+ * Other values are expected to be JSON-compatible: objects with `toJSON`, like `Date`, are converted through it as in `JSON.stringify`,
+ * and other objects than arrays and plain objects, like `Map`, are rejected with a `TypeError`, as well as cyclic structures
+ * and the values JSON cannot represent: `undefined`, functions, symbols and bigints.
+ *
+ * @param result the result to serialize
+ * @param registry the error classes to identify. See {@link ErrorRegistry}.
+ * @returns the serialized result
+ */
+export function serializeResult(
+  result: Result<unknown, unknown>,
+  registry: ErrorRegistry = new ErrorRegistry(),
+): SerializedResult {
+  if (result.type === "Ok") {
+    return { type: "Ok", value: serializeValue(result.value, registry) };
+  } else {
+    return { type: "Err", error: serializeValue(result.error, registry) };
+  }
+}
+
+/**
+ * Restores a {@link Result} serialized by {@link serializeResult}.
+ *
+ * Errors are restored as instances of the registered classes, without calling their constructors,
+ * so that `instanceof` and predicates like `pick(MyError)` work as before.
+ * Errors of unknown classes are restored as `Error`.
+ *
+ * @param data the serialized result
+ * @param registry the error classes to restore. See {@link ErrorRegistry}.
+ * @returns the restored result
+ */
+export function deserializeResult(
+  data: SerializedResult,
+  registry: ErrorRegistry = new ErrorRegistry(),
+): Result<unknown, unknown> {
+  if (data.type === "Ok") {
+    return { type: "Ok", value: deserializeValue(data.value, registry) };
+  } else {
+    return { type: "Err", error: deserializeValue(data.error, registry) };
+  }
+}
+
+/**
+ * Converts a value possibly containing errors into a JSON-compatible form.
+ *
+ * See {@link serializeResult} for details.
+ *
+ * @param value the value to serialize
+ * @param registry the error classes to identify. See {@link ErrorRegistry}.
+ * @returns the serialized value
+ */
+export function serializeValue(
+  value: unknown,
+  registry: ErrorRegistry = new ErrorRegistry(),
+): SerializedValue {
+  return serialize(value, registry, new Set());
+}
+
+/**
+ * Restores a value serialized by {@link serializeValue}.
+ *
+ * See {@link deserializeResult} for details.
+ *
+ * @param data the serialized value
+ * @param registry the error classes to restore. See {@link ErrorRegistry}.
+ * @returns the restored value
+ */
+export function deserializeValue(
+  data: SerializedValue,
+  registry: ErrorRegistry = new ErrorRegistry(),
+): unknown {
+  if (Array.isArray(data)) {
+    return data.map((item) => deserializeValue(item, registry));
+  } else if (typeof data === "object" && data !== null) {
+    const record = data as { readonly [key: string]: SerializedValue };
+    if (isTagged(record, "$error")) {
+      return deserializeError(
+        record.$error as unknown as SerializedError,
+        registry,
+      );
+    } else if (isTagged(record, "$object")) {
+      return deserializeEntries(
+        {},
+        record.$object as { readonly [key: string]: SerializedValue },
+        registry,
+      );
+    } else {
+      return deserializeEntries({}, record, registry);
+    }
+  } else {
+    return data;
+  }
+}
+
+function serialize(
+  value: unknown,
+  registry: ErrorRegistry,
+  ancestors: Set<unknown>,
+): SerializedValue {
+  if (typeof value !== "object" || value === null) {
+    if (
+      value === undefined || typeof value === "function" ||
+      typeof value === "symbol" || typeof value === "bigint"
+    ) {
+      throw new TypeError(`Cannot serialize a value of type ${typeof value}`);
+    }
+    return value as SerializedValue;
+  }
+  if (ancestors.has(value)) {
+    throw new TypeError("Cannot serialize a cyclic structure");
+  }
+  ancestors.add(value);
+  try {
+    if (value instanceof Error) {
+      return { $error: serializeError(value, registry, ancestors) };
+    } else if (Array.isArray(value)) {
+      return value.map((item) => serialize(item, registry, ancestors));
+    } else if (hasToJSON(value)) {
+      // As JSON.stringify does, e.g. for Date
+      return serialize(value.toJSON(), registry, ancestors);
+    } else if (!isPlainObject(value)) {
+      throw new TypeError(
+        `Cannot serialize an instance of ${
+          value.constructor?.name || "an anonymous class"
+        }`,
+      );
+    }
+    const entries = serializeEntries(value, [], registry, ancestors);
+    // Escape objects that look like the tagged ones
+    return isTagged(entries, "$error") || isTagged(entries, "$object")
+      ? { $object: entries }
+      : entries;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+function hasToJSON(value: object): value is { toJSON(): unknown } {
+  return typeof (value as { toJSON?: unknown }).toJSON === "function";
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function serializeError(
+  error: Error,
+  registry: ErrorRegistry,
+  ancestors: Set<unknown>,
+): SerializedError {
+  return {
+    class: registry.nameOf(error),
+    message: error.message,
+    ...typeof error.stack === "string" ? { stack: error.stack } : {},
+    ...!("cause" in error)
+      ? {}
+      : error.cause === undefined
+      ? { undefinedCause: true }
+      : { cause: serialize(error.cause, registry, ancestors) },
+    ...error instanceof AggregateError
+      ? { errors: error.errors.map((e) => serialize(e, registry, ancestors)) }
+      : {},
+    fields: serializeEntries(
+      error,
+      ["message", "stack", "cause", "errors"],
+      registry,
+      ancestors,
+    ),
+  };
+}
+
+function serializeEntries(
+  value: object,
+  excludedKeys: string[],
+  registry: ErrorRegistry,
+  ancestors: Set<unknown>,
+): { [key: string]: SerializedValue } {
+  const entries: { [key: string]: SerializedValue } = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (!excludedKeys.includes(key)) {
+      defineEntry(entries, key, serialize(field, registry, ancestors));
+    }
+  }
+  return entries;
+}
+
+function deserializeError(
+  data: SerializedError,
+  registry: ErrorRegistry,
+): Error {
+  const cls = registry.classOf(data.class) ?? Error;
+  const options = data.cause !== undefined
+    ? { cause: deserializeValue(data.cause, registry) }
+    : data.undefinedCause
+    ? { cause: undefined }
+    : undefined;
+  // Create a genuine error object with the prototype of the class, without calling its constructor
+  const error: Error = data.errors !== undefined
+    ? Reflect.construct(AggregateError, [
+      data.errors.map((e) => deserializeValue(e, registry)),
+      data.message,
+      options,
+    ], cls)
+    : Reflect.construct(Error, [data.message, options], cls);
+  if (data.stack !== undefined) {
+    Object.defineProperty(error, "stack", {
+      value: data.stack,
+      writable: true,
+      enumerable: false,
+      configurable: true,
+    });
+  }
+  deserializeEntries(error, data.fields, registry);
+  return error;
+}
+
+function deserializeEntries<T extends object>(
+  target: T,
+  data: { readonly [key: string]: SerializedValue },
+  registry: ErrorRegistry,
+): T {
+  for (const [key, field] of Object.entries(data)) {
+    defineEntry(target, key, deserializeValue(field, registry));
+  }
+  return target;
+}
+
+// Unlike assignment, keeps "__proto__" from untrusted input as an own property instead of replacing the prototype
+function defineEntry(target: object, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+function isTagged(
+  record: { readonly [key: string]: SerializedValue },
+  tag: string,
+): boolean {
+  const keys = Object.keys(record);
+  return keys.length === 1 && keys[0] === tag;
+}
@@ -0,0 +1,260 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import type { Clock } from "./exception.ts";
+import { DoStream, streamTransform } from "./stream.ts";
+
+Deno.test("DoStream chains over iterables and streams", async () => {
+  const seen: number[] = [];
+  const result = await DoStream([1, 2, 3, 4])
+    .map((it, index) => it * 10 + index)
+    .filter((it) => it !== 21)
+    .tap((it) => seen.push(it))
+    .done();
+  assertEquals(result, [10, 32, 43]);
+  assertEquals(seen, [10, 32, 43]);
+  assertEquals(await DoStream(streamOf(["a", "b"])).done(), ["a", "b"]);
+});
+
+Deno.test("mapAwait keeps the order within the concurrency", async () => {
+  const tasks = new Tasks<number>();
+  const iterator = DoStream(countUp(tasks.pulled, 5))
+    .mapAwait((it) => tasks.start(it), { concurrency: 2 })[
+    Symbol.asyncIterator
+  ]();
+  const first = iterator.next();
+  await flush();
+  assertEquals(tasks.running, [0, 1]);
+  tasks.finish(1, 10);
+  await flush();
+  // The second one has finished, but the first one has not
+  assertEquals(tasks.running, [0]);
+  assertEquals(tasks.pulled, [0, 1]);
+  tasks.finish(0, 0);
+  assertEquals(await first, { done: false, value: 0 });
+  assertEquals(await iterator.next(), { done: false, value: 10 });
+  await flush();
+  // Reads ahead only while the consumer is pulling
+  assertEquals(tasks.running, [2]);
+  assertEquals(tasks.pulled, [0, 1, 2]);
+  assertEquals(tasks.maxRunning, 2);
+  await iterator.return?.();
+});
+
+Deno.test("mapAwait emits the results as they are ready when unordered", async () => {
+  const tasks = new Tasks<number>();
+  const iterator = DoStream(countUp(tasks.pulled, 3))
+    .mapAwait((it) => tasks.start(it), { concurrency: 2, ordered: false })[
+    Symbol.asyncIterator
+  ]();
+  const first = iterator.next();
+  await flush();
+  tasks.finish(1, 10);
+  assertEquals(await first, { done: false, value: 10 });
+  const second = iterator.next();
+  await flush();
+  assertEquals(tasks.running, [0, 2]);
+  tasks.finish(2, 20);
+  assertEquals(await second, { done: false, value: 20 });
+  tasks.finish(0, 0);
+  assertEquals(await iterator.next(), { done: false, value: 0 });
+  assertEquals(await iterator.next(), { done: true, value: undefined });
+  assertEquals(tasks.maxRunning, 2);
+});
+
+Deno.test("mapAwait rejects invalid concurrency", () => {
+  assertThrows(
+    () =>
+      DoStream([1]).mapAwait((it) => Promise.resolve(it), { concurrency: 0 }),
+    RangeError,
+  );
+});
+
+Deno.test("batch groups the values by size", async () => {
+  assertEquals(await DoStream([1, 2, 3, 4, 5]).batch(2).done(), [
+    [1, 2],
+    [3, 4],
+    [5],
+  ]);
+  assertThrows(() => DoStream([1]).batch(0), RangeError);
+});
+
+Deno.test("batch emits a partial batch when the time is up", async () => {
+  const clock = new ManualClock();
+  const channel = new Channel<number>();
+  const iterator = DoStream(channel)
+    .batch({ size: 3, time: 100, clock })[Symbol.asyncIterator]();
+  const first = iterator.next();
+  channel.push(1);
+  await flush();
+  clock.advance(50);
+  channel.push(2);
+  await flush();
+  clock.advance(50);
+  // Counted from the first value of the batch
+  assertEquals(await first, { done: false, value: [1, 2] });
+
+  const second = iterator.next();
+  channel.push(3);
+  channel.push(4);
+  channel.push(5);
+  assertEquals(await second, { done: false, value: [3, 4, 5] });
+
+  const third = iterator.next();
+  channel.push(6);
+  channel.close();
+  assertEquals(await third, { done: false, value: [6] });
+  assertEquals(await iterator.next(), { done: true, value: undefined });
+});
+
+Deno.test("take stops reading and closes the source", async () => {
+  const pulled: number[] = [];
+  let closed = false;
+  async function* source() {
+    try {
+      yield* countUp(pulled, 100);
+    } finally {
+      closed = true;
+    }
+  }
+  assertEquals(await DoStream(source()).take(2).done(), [0, 1]);
+  assertEquals(pulled, [0, 1]);
+  assertEquals(closed, true);
+  assertEquals(await DoStream([1, 2]).take(0).done(), []);
+});
+
+Deno.test("toReadableStream pulls on demand and cancels the source", async () => {
+  const pulled: number[] = [];
+  let closed = false;
+  async function* source() {
+    try {
+      yield* countUp(pulled, 100);
+    } finally {
+      closed = true;
+    }
+  }
+  const reader = DoStream(source()).map((it) => it * 2).toReadableStream()
+    .getReader();
+  assertEquals(await reader.read(), { done: false, value: 0 });
+  assertEquals(await reader.read(), { done: false, value: 2 });
+  assertEquals(pulled, [0, 1]);
+  await reader.cancel();
+  assertEquals(closed, true);
+});
+
+Deno.test("streamTransform and pipeThrough interoperate with Web Streams", async () => {
+  const doubled = streamOf([1, 2, 3]).pipeThrough(
+    streamTransform<number, number>((stream) =>
+      stream.map((it) => it * 2).filter((it) => it !== 4)
+    ),
+  );
+  assertEquals(await DoStream(doubled).done(), [2, 6]);
+
+  const text = await DoStream(["a", "b"])
+    .map((it) => new TextEncoder().encode(it))
+    .pipeThrough(new TextDecoderStream())
+    .done();
+  assertEquals(text.join(""), "ab");
+});
+
+function streamOf<T>(values: T[]): ReadableStream<T> {
+  return new ReadableStream({
+    start(controller) {
+      for (const value of values) {
+        controller.enqueue(value);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function* countUp(pulled: number[], count: number) {
+  for (let i = 0; i < count; i++) {
+    pulled.push(i);
+    yield await Promise.resolve(i);
+  }
+}
+
+// Lets the pending promises settle
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+// Asynchronous callbacks finished by the test
+class Tasks<T> {
+  readonly pulled: number[] = [];
+  maxRunning = 0;
+  private readonly _running = new Map<number, (value: T) => void>();
+
+  get running(): number[] {
+    return [...this._running.keys()].sort((a, b) => a - b);
+  }
+
+  start(key: number): Promise<T> {
+    return new Promise((resolve) => {
+      this._running.set(key, resolve);
+      this.maxRunning = Math.max(this.maxRunning, this._running.size);
+    });
+  }
+
+  finish(key: number, value: T): void {
+    this._running.get(key)!(value);
+    this._running.delete(key);
+  }
+}
+
+// An async iterable whose values are pushed by the test
+class Channel<T> implements AsyncIterable<T> {
+  private readonly _values: T[] = [];
+  private _closed = false;
+  private _wake: (() => void) | undefined;
+
+  push(value: T): void {
+    this._values.push(value);
+    this._wake?.();
+  }
+
+  close(): void {
+    this._closed = true;
+    this._wake?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this._values.length > 0) {
+        yield this._values.shift()!;
+      } else if (this._closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => this._wake = resolve);
+      }
+    }
+  }
+}
+
+class ManualClock implements Clock {
+  private _now = 0;
+  private _timers: { at: number; resolve: () => void }[] = [];
+
+  now(): number {
+    return this._now;
+  }
+
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = { at: this._now + ms, resolve };
+      this._timers.push(timer);
+      signal?.addEventListener("abort", () => {
+        this._timers = this._timers.filter((other) => other !== timer);
+        reject(signal.reason);
+      });
+    });
+  }
+
+  advance(ms: number): void {
+    this._now += ms;
+    const due = this._timers.filter((timer) => timer.at <= this._now);
+    this._timers = this._timers.filter((timer) => timer.at > this._now);
+    for (const timer of due) {
+      timer.resolve();
+    }
+  }
+}
@@ -0,0 +1,492 @@
+import { type Clock, systemClock } from "./exception.ts";
+
+/**
+ * Initiates a method chain over a stream of values, the streaming counterpart of `Do`.
+ *
+ * The chain is lazy and pull-based: the values are read from the source only as fast as they are consumed,
+ * which is how the backpressure is propagated to the source.
+ *
+ * @param source the values to process, either an (async) iterable or a `ReadableStream`
+ * @returns the method chain builder
+ *
+ * @example
+ *   ```typescript
+ *   const users = await DoStream(readLines(file))
+ *     .map((line) => JSON.parse(line))
+ *     .filter((record) => record.type === "user")
+ *     .mapAwait((record) => saveUser(record), { concurrency: 4 })
+ *     .done();
+ *   ```
+ */
+export function DoStream<T>(
+  source: AsyncIterable<T> | Iterable<T> | ReadableStream<T>,
+): StreamThunk<T> {
+  if (source instanceof ReadableStream) {
+    return new (StreamThunk as StreamThunkConstructor<T>)({
+      [Symbol.asyncIterator]: () => readAll(source),
+    });
+  } else if (
+    typeof (source as AsyncIterable<T>)[Symbol.asyncIterator] === "function"
+  ) {
+    return new (StreamThunk as StreamThunkConstructor<T>)(
+      source as AsyncIterable<T>,
+    );
+  }
+  return new (StreamThunk as StreamThunkConstructor<T>)({
+    async *[Symbol.asyncIterator]() {
+      yield* source;
+    },
+  });
+}
+
+/**
+ * Builds a transform from a stream chain, which can be used with `ReadableStream.prototype.pipeThrough`.
+ *
+ * @param build the function to build the chain from the written values
+ * @returns the pair of the writable side and the readable side, like `TransformStream`
+ *
+ * @example
+ *   ```typescript
+ *   const response = await fetch(url);
+ *   const lines = response.body!
+ *     .pipeThrough(new TextDecoderStream())
+ *     .pipeThrough(streamTransform((chunks) => chunks.map((chunk) => chunk.toUpperCase())));
+ *   ```
+ */
+export function streamTransform<I, O>(
+  build: (stream: StreamThunk<I>) => StreamThunk<O>,
+): ReadableWritablePair<O, I> {
+  const { readable, writable } = new TransformStream<I, I>();
+  return { writable, readable: build(DoStream(readable)).toReadableStream() };
+}
+
+/**
+ * The options for {@link StreamThunk.mapAwait}.
+ */
+export interface MapAwaitOptions {
+  /**
+   * The maximum number of the callbacks running at the same time. Defaults to 1.
+   */
+  readonly concurrency?: number | undefined;
+  /**
+   * Whether the results keep the order of the source. Defaults to `true`.
+   * Otherwise, the results are emitted as soon as they are ready.
+   */
+  readonly ordered?: boolean | undefined;
+}
+
+/**
+ * The options for {@link StreamThunk.batch}.
+ */
+export interface BatchOptions {
+  /**
+   * The maximum number of the values in a batch.
+   */
+  readonly size?: number | undefined;
+  /**
+   * The maximum time in milliseconds to wait for a batch to be filled, counted from its first value.
+   */
+  readonly time?: number | undefined;
+  /**
+   * The source of time for `time`. Defaults to {@link systemClock}.
+   */
+  readonly clock?: Clock | undefined;
+}
+
+type StreamThunkConstructor<T> = new (
+  source: AsyncIterable<T>,
+) => StreamThunk<T>;
+
+/**
+ * A builder for method chains over a stream of values.
+ *
+ * Use {@link DoStream} to initiate the chain. The chain itself is also an async iterable.
+ */
+export class StreamThunk<out T> implements AsyncIterable<T> {
+  private readonly _source: AsyncIterable<T>;
+
+  private constructor(source: AsyncIterable<T>) {
+    this._source = source;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this._source[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Concludes the method chain and reads all the values.
+   * @returns the values of the stream
+   */
+  async done(): Promise<T[]> {
+    const values: T[] = [];
+    for await (const value of this._source) {
+      values.push(value);
+    }
+    return values;
+  }
+
+  /**
+   * Concludes the method chain as a `ReadableStream`, which reads the values as they are pulled.
+   * @returns the stream of the values
+   */
+  toReadableStream(): ReadableStream<T> {
+    let iterator: AsyncIterator<T> | undefined;
+    return new ReadableStream<T>({
+      pull: async (controller) => {
+        iterator ??= this._source[Symbol.asyncIterator]();
+        const result = await iterator.next();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      cancel: async () => {
+        await iterator?.return?.();
+      },
+    }, { highWaterMark: 0 });
+  }
+
+  /**
+   * Transforms each value.
+   * @param f the transformation, which also receives the index of the value
+   * @returns next builder in the chain
+   */
+  map<U>(f: (value: T, index: number) => U): StreamThunk<U> {
+    const source = this._source;
+    return new StreamThunk({
+      async *[Symbol.asyncIterator]() {
+        let index = 0;
+        for await (const value of source) {
+          yield f(value, index++);
+        }
+      },
+    });
+  }
+
+  /**
+   * Transforms each value asynchronously, possibly running several callbacks at the same time.
+   *
+   * The source is read only while there is room for another callback to run.
+   *
+   * @param f the asynchronous transformation, which also receives the index of the value
+   * @param options the options like `concurrency`. See {@link MapAwaitOptions}.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   const pages = await DoStream(urls)
+   *     .mapAwait((url) => fetch(url).then((r) => r.text()), { concurrency: 8, ordered: false })
+   *     .done();
+   *   ```
+   */
+  mapAwait<U>(
+    f: (value: T, index: number) => Promise<U>,
+    options: MapAwaitOptions = {},
+  ): StreamThunk<U> {
+    const source = this._source;
+    const { concurrency = 1, ordered = true } = options;
+    if (!(concurrency >= 1)) {
+      throw new RangeError("concurrency must be at least 1");
+    }
+    return new StreamThunk({
+      [Symbol.asyncIterator]: () =>
+        ordered
+          ? mapOrdered(source, f, concurrency)
+          : mapUnordered(source, f, concurrency),
+    });
+  }
+
+  /**
+   * Keeps the values satisfying the predicate.
+   * @param pred the predicate, which also receives the index of the value
+   * @returns next builder in the chain
+   */
+  filter<U extends T>(
+    pred: (value: T, index: number) => value is U,
+  ): StreamThunk<U>;
+  /**
+   * Keeps the values satisfying the predicate.
+   * @param pred the predicate, which also receives the index of the value
+   * @returns next builder in the chain
+   */
+  filter(pred: (value: T, index: number) => boolean): StreamThunk<T>;
+  filter(pred: (value: T, index: number) => boolean): StreamThunk<T> {
+    const source = this._source;
+    return new StreamThunk({
+      async *[Symbol.asyncIterator]() {
+        let index = 0;
+        for await (const value of source) {
+          if (pred(value, index++)) {
+            yield value;
+          }
+        }
+      },
+    });
+  }
+
+  /**
+   * Groups the values into arrays.
+   * @param size the number of the values in a batch. The last batch may be smaller.
+   * @returns next builder in the chain
+   *
+   * @example
+   *   ```typescript
+   *   await DoStream(records)
+   *     .batch({ size: 100, time: 1000 }) // At most 100 records, waiting at most 1 second
+   *     .mapAwait((batch) => insertAll(batch))
+   *     .done();
+   *   ```
+   */
+  batch(size: number): StreamThunk<T[]>;
+  /**
+   * Groups the values into arrays, by the number of the values and/or the time to wait.
+   * @param options the limits of a batch. See {@link BatchOptions}.
+   * @returns next builder in the chain
+   */
+  batch(options: BatchOptions): StreamThunk<T[]>;
+  batch(sizeOrOptions: number | BatchOptions): StreamThunk<T[]> {
+    const source = this._source;
+    const options = typeof sizeOrOptions === "number"
+      ? { size: sizeOrOptions }
+      : sizeOrOptions;
+    const { size = Infinity, time, clock = systemClock } = options;
+    if (!(size >= 1)) {
+      throw new RangeError("size must be at least 1");
+    }
+    return new StreamThunk({
+      [Symbol.asyncIterator]: () =>
+        time === undefined
+          ? batchBySize(source, size)
+          : batchByTime(source, size, time, clock),
+    });
+  }
+
+  /**
+   * Runs a side-effect function for each value.
+   * @param f the side-effect function, which also receives the index of the value
+   * @returns next builder in the chain
+   */
+  tap(f: (value: T, index: number) => void): StreamThunk<T> {
+    return this.map((value, index) => {
+      f(value, index);
+      return value;
+    });
+  }
+
+  /**
+   * Takes the first values, and stops reading the source after that.
+   * @param count the number of the values to take
+   * @returns next builder in the chain
+   */
+  take(count: number): StreamThunk<T> {
+    const source = this._source;
+    return new StreamThunk({
+      async *[Symbol.asyncIterator]() {
+        if (count <= 0) {
+          return;
+        }
+        let taken = 0;
+        for await (const value of source) {
+          yield value;
+          if (++taken >= count) {
+            return;
+          }
+        }
+      },
+    });
+  }
+
+  /**
+   * Passes the values through a transform stream, such as `TextDecoderStream` or `CompressionStream`.
+   * @param transform the transform stream
+   * @returns next builder in the chain
+   */
+  pipeThrough<U>(transform: ReadableWritablePair<U, T>): StreamThunk<U> {
+    return DoStream(this.toReadableStream().pipeThrough(transform));
+  }
+}
+
+async function* readAll<T>(stream: ReadableStream<T>): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  let done = false;
+  try {
+    while (true) {
+      const result = await reader.read();
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel();
+    }
+    reader.releaseLock();
+  }
+}
+
+// Calls f, turning the synchronous exception into a rejection.
+function call<T, U>(
+  f: (value: T, index: number) => Promise<U>,
+  value: T,
+  index: number,
+): Promise<U> {
+  try {
+    const promise = Promise.resolve(f(value, index));
+    // The rejection is reported when the result is consumed, if ever
+    promise.catch(() => {});
+    return promise;
+  } catch (error) {
+    return Promise.reject(error);
+  }
+}
+
+async function* mapOrdered<T, U>(
+  source: AsyncIterable<T>,
+  f: (value: T, index: number) => Promise<U>,
+  concurrency: number,
+): AsyncGenerator<U> {
+  const iterator = source[Symbol.asyncIterator]();
+  const queue: Promise<U>[] = [];
+  let index = 0;
+  let done = false;
+  try {
+    while (true) {
+      while (!done && queue.length < concurrency) {
+        const result = await iterator.next();
+        if (result.done) {
+          done = true;
+        } else {
+          queue.push(call(f, result.value, index++));
+        }
+      }
+      const head = queue.shift();
+      if (head === undefined) {
+        return;
+      }
+      yield await head;
+    }
+  } finally {
+    if (!done) {
+      await iterator.return?.();
+    }
+  }
+}
+
+async function* mapUnordered<T, U>(
+  source: AsyncIterable<T>,
+  f: (value: T, index: number) => Promise<U>,
+  concurrency: number,
+): AsyncGenerator<U> {
+  const iterator = source[Symbol.asyncIterator]();
+  const running = new Map<number, Promise<readonly [number, U]>>();
+  let index = 0;
+  let done = false;
+  try {
+    while (true) {
+      while (!done && running.size < concurrency) {
+        const result = await iterator.next();
+        if (result.done) {
+          done = true;
+        } else {
+          const i = index++;
+          const promise = call(f, result.value, i).then((value) =>
+            [i, value] as const
+          );
+          promise.catch(() => {});
+          running.set(i, promise);
+        }
+      }
+      if (running.size === 0) {
+        return;
+      }
+      const [i, value] = await Promise.race(running.values());
+      running.delete(i);
+      yield value;
+    }
+  } finally {
+    if (!done) {
+      await iterator.return?.();
+    }
+  }
+}
+
+async function* batchBySize<T>(
+  source: AsyncIterable<T>,
+  size: number,
+): AsyncGenerator<T[]> {
+  let batch: T[] = [];
+  for await (const value of source) {
+    batch.push(value);
+    if (batch.length >= size) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+const timedOut = Symbol("timedOut");
+
+async function* batchByTime<T>(
+  source: AsyncIterable<T>,
+  size: number,
+  time: number,
+  clock: Clock,
+): AsyncGenerator<T[]> {
+  const iterator = source[Symbol.asyncIterator]();
+  let batch: T[] = [];
+  // The pending read is kept across the batches, as it cannot be cancelled
+  let next: Promise<IteratorResult<T>> | undefined;
+  let timer: AbortController | undefined;
+  let timeout: Promise<typeof timedOut> | undefined;
+  let done = false;
+  try {
+    while (true) {
+      next ??= iterator.next();
+      const result = timeout === undefined
+        ? await next
+        : await Promise.race([next, timeout]);
+      if (result === timedOut) {
+        timer = timeout = undefined;
+        yield batch;
+        batch = [];
+        continue;
+      }
+      next = undefined;
+      if (result.done) {
+        done = true;
+        if (batch.length > 0) {
+          yield batch;
+        }
+        return;
+      }
+      batch.push(result.value);
+      if (batch.length === 1) {
+        timer = new AbortController();
+        timeout = clock.sleep(time, timer.signal).then(
+          () => timedOut,
+          () => new Promise<never>(() => {}),
+        );
+      }
+      if (batch.length >= size) {
+        timer?.abort();
+        timer = timeout = undefined;
+        yield batch;
+        batch = [];
+      }
+    }
+  } finally {
+    timer?.abort();
+    if (!done && next !== undefined) {
+      // Don't wait for the pending read to close the source
+      iterator.return?.()?.catch(() => {});
+    } else if (!done) {
+      await iterator.return?.();
+    }
+  }
+}
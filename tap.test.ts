@@ -0,0 +1,121 @@
+import { assertEquals } from "jsr:@std/assert";
+import {
+  inspect,
+  loggerSink,
+  MemorySink,
+  sample,
+  tap,
+  tapAsync,
+  tapIf,
+} from "./tap.ts";
+
+Deno.test("tap and tapAsync return the value", async () => {
+  const seen: number[] = [];
+  assertEquals(tap(42, (it) => seen.push(it)), 42);
+  assertEquals(await tapAsync(43, (it) => void seen.push(it)), 43);
+  assertEquals(seen, [42, 43]);
+});
+
+Deno.test("inspect writes the labeled snapshot to the sink", () => {
+  const sink = new MemorySink();
+  const value = {
+    id: 1n,
+    name: "Alice",
+    greet: function hello() {},
+    error: new TypeError("bad"),
+    at: new Date(0),
+    nested: { list: [1, { deep: true }] },
+    missing: undefined,
+  };
+  tap(value, inspect("user", { sink, depth: 3 }));
+  assertEquals(sink.records.length, 1);
+  assertEquals(sink.records[0].label, "user");
+  assertEquals(sink.records[0].value, {
+    id: "1n",
+    name: "Alice",
+    greet: "[Function hello]",
+    error: "TypeError: bad",
+    at: "1970-01-01T00:00:00.000Z",
+    nested: { list: [1, "[Object]"] },
+    missing: undefined,
+  });
+  assertEquals(
+    sink.records[0].text,
+    'user: {"id":"1n","name":"Alice","greet":"[Function hello]","error":"TypeError: bad","at":"1970-01-01T00:00:00.000Z","nested":{"list":[1,"[Object]"]}}',
+  );
+
+  inspect("nothing", { sink })(undefined);
+  assertEquals(sink.records[1].text, "nothing: undefined");
+  sink.clear();
+  assertEquals(sink.records, []);
+});
+
+Deno.test("inspect shows circular references and invalid dates", () => {
+  const sink = new MemorySink();
+  const node: { name: string; self?: unknown; at: Date } = {
+    name: "a",
+    at: new Date(NaN),
+  };
+  node.self = node;
+  inspect("node", { sink })(node);
+  assertEquals(sink.records[0].value, {
+    name: "a",
+    at: "Invalid Date",
+    self: "[Circular]",
+  });
+});
+
+Deno.test("inspect redacts the keys at any depth", () => {
+  const sink = new MemorySink();
+  const log = inspect("session", {
+    sink,
+    redact: ["password", /token/g],
+  });
+  const value = {
+    user: { name: "Alice", password: "secret" },
+    accessToken: "abc",
+    tokens: ["x"],
+  };
+  log(value);
+  assertEquals(sink.records[0].value, {
+    user: { name: "Alice", password: "[REDACTED]" },
+    accessToken: "abc",
+    tokens: "[REDACTED]",
+  });
+
+  // A global RegExp is stateful with test(), but not here
+  log({ token: "abc" });
+  log({ token: "abc" });
+  assertEquals(sink.records.slice(1).map((record) => record.value), [
+    { token: "[REDACTED]" },
+    { token: "[REDACTED]" },
+  ]);
+});
+
+Deno.test("tapIf and sample call the function conditionally", () => {
+  const seen: number[] = [];
+  const record = (it: number) => void seen.push(it);
+  [1, 2, 3, 4].forEach(tapIf((it: number) => it % 2 === 0, record));
+  assertEquals(seen, [2, 4]);
+
+  const randoms = [0.5, 0.1, 0.9];
+  const sampled = sample<number, void>(0.5, record, {
+    random: () => randoms.shift()!,
+  });
+  [5, 6, 7].forEach(sampled);
+  assertEquals(seen, [2, 4, 6]);
+});
+
+Deno.test("loggerSink passes the label and the value to the logger", () => {
+  const logs: [string, unknown][] = [];
+  const sink = loggerSink({
+    debug: (message, fields) => logs.push([message, fields]),
+  });
+  inspect("user", { sink, redact: ["password"] })({
+    id: 1,
+    password: "secret",
+  });
+  assertEquals(logs, [["user", {
+    value: { id: 1, password: "[REDACTED]" },
+  }]]);
+});
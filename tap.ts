@@ -39,7 +39,7 @@ export function tapMe<T>(this: T, f: (value: T) => void): T {
  * The tap function (as known in Ruby) for use with the proposed pipeline operator `|>`, async version.
  *
  * @param obj the tap target
- * @param f the asynchronous side-effect function
+ * @param f the side-effect function, which may be asynchronous
  * @returns the first argument
  *
  * @example
@@ -51,7 +51,7 @@ export function tapMe<T>(this: T, f: (value: T) => void): T {
  */
 export async function tapAsync<T>(
   obj: T,
-  f: (value: T) => Promise<void>,
+  f: (value: T) => void | Promise<void>,
 ): Promise<T> {
   await f(obj);
   return obj;
@@ -61,7 +61,7 @@ export async function tapAsync<T>(
  * The tap function (as known in Ruby) for use with the proposed call-this operator `~>`, async version.
  *
  * @param this the tap target
- * @param f the asynchronous side-effect function
+ * @param f the side-effect function, which may be asynchronous
  * @returns the first argument
  *
  * @example
@@ -72,8 +72,249 @@ export async function tapAsync<T>(
  */
 export async function tapMeAsync<T>(
   this: T,
-  f: (value: T) => Promise<void>,
+  f: (value: T) => void | Promise<void>,
 ): Promise<T> {
   await f(this);
   return this;
 }
+
+/**
+ * A record written by {@link inspect}.
+ */
+export type InspectRecord = {
+  readonly label: string;
+  /** The inspected value, with its depth limited and the keys redacted */
+  readonly value: unknown;
+  /** The formatted text of the record */
+  readonly text: string;
+};
+
+/**
+ * The destination of {@link InspectRecord}s.
+ */
+export interface Sink {
+  write(record: InspectRecord): void;
+}
+
+/**
+ * The {@link Sink} writing the text of the records to the console.
+ */
+export const consoleSink: Sink = {
+  write: (record) => console.log(record.text),
+};
+
+/**
+ * The {@link Sink} keeping the records in memory, useful for tests.
+ *
+ * @example
+ *   ```typescript
+ *   const sink = new MemorySink();
+ *   tap({ id: 1, password: "secret" }, inspect("user", { sink, redact: ["password"] }));
+ *   console.log(sink.records[0].value); // => { id: 1, password: "[REDACTED]" }
+ *   ```
+ */
+export class MemorySink implements Sink {
+  /**
+   * The records written so far.
+   */
+  readonly records: InspectRecord[] = [];
+
+  write(record: InspectRecord): void {
+    this.records.push(record);
+  }
+
+  /**
+   * Removes all the records.
+   */
+  clear(): void {
+    this.records.length = 0;
+  }
+}
+
+/**
+ * A logger taking a message and structured fields, like the common logging libraries.
+ */
+export interface StructuredLogger {
+  debug(message: string, fields: { readonly [key: string]: unknown }): void;
+}
+
+/**
+ * Creates a {@link Sink} writing the records to a structured logger, with the label as the message.
+ *
+ * @param logger the logger to write to. See {@link StructuredLogger}.
+ * @returns the sink
+ *
+ * @example
+ *   ```typescript
+ *   const sink = loggerSink({
+ *     debug: (message, fields) => logger.debug({ ...fields }, message),
+ *   });
+ *   ```
+ */
+export function loggerSink(logger: StructuredLogger): Sink {
+  return {
+    write: (record) => logger.debug(record.label, { value: record.value }),
+  };
+}
+
+/**
+ * The options for {@link inspect}.
+ */
+export interface InspectOptions {
+  /**
+   * How deep the objects and arrays are followed. Defaults to 4.
+   */
+  readonly depth?: number | undefined;
+  /**
+   * The keys whose values are hidden, at any depth.
+   */
+  readonly redact?: readonly (string | RegExp)[] | undefined;
+  /**
+   * Where the records are written. Defaults to {@link consoleSink}.
+   */
+  readonly sink?: Sink | undefined;
+}
+
+/**
+ * Creates a side-effect function which writes the labeled value to a sink, for the tap functions and `tap` methods.
+ *
+ * @param label the label to identify the record
+ * @param options the options like `depth`, `redact` and `sink`. See {@link InspectOptions}.
+ * @returns the side-effect function
+ *
+ * @example
+ *   ```typescript
+ *   const user = tap(await fetchUser(id), inspect("user", { redact: ["token"] }));
+ *   // user: {"id":1,"name":"Alice","token":"[REDACTED]"}
+ *   const result = Do(input)
+ *     .tap(inspect("input", { depth: 1 }))
+ *     .pipe((it) => process(it))
+ *     .done();
+ *   ```
+ */
+export function inspect(
+  label: string,
+  options: InspectOptions = {},
+): (value: unknown) => void {
+  const { depth = 4, redact = [], sink = consoleSink } = options;
+  return (value) => {
+    const snapshot = snapshotOf(value, depth, redact, new Set());
+    sink.write({
+      label,
+      value: snapshot,
+      text: `${label}: ${format(snapshot)}`,
+    });
+  };
+}
+
+/**
+ * Creates a side-effect function which calls `f` only when the value satisfies the predicate.
+ *
+ * @param pred the condition to call `f`
+ * @param f the side-effect function, like the one created by {@link inspect}
+ * @returns the side-effect function
+ *
+ * @example
+ *   ```typescript
+ *   const result = Do(response)
+ *     .tap(tapIf((it) => it.status >= 400, inspect("error response")))
+ *     .done();
+ *   ```
+ */
+export function tapIf<T, R extends void | Promise<void>>(
+  pred: (value: T) => boolean,
+  f: (value: NoInfer<T>) => R,
+): (value: T) => R | void {
+  return (value) => pred(value) ? f(value) : undefined;
+}
+
+/**
+ * The options for {@link sample}.
+ */
+export interface SampleOptions {
+  /**
+   * The source of randomness returning a number in `[0, 1)`. Defaults to `Math.random`.
+   */
+  readonly random?: (() => number) | undefined;
+}
+
+/**
+ * Creates a side-effect function which calls `f` only for a fraction of the values.
+ *
+ * @param rate the probability to call `f`, between 0 and 1
+ * @param f the side-effect function, like the one created by {@link inspect}
+ * @param options the options like `random`. See {@link SampleOptions}.
+ * @returns the side-effect function
+ *
+ * @example
+ *   ```typescript
+ *   const handle = Flow<Request>()
+ *     .tap(sample(0.01, inspect("request")))
+ *     .pipeAwait((it) => route(it))
+ *     .build();
+ *   ```
+ */
+export function sample<T, R extends void | Promise<void>>(
+  rate: number,
+  f: (value: NoInfer<T>) => R,
+  options: SampleOptions = {},
+): (value: T) => R | void {
+  const { random = Math.random } = options;
+  return (value) => random() < rate ? f(value) : undefined;
+}
+
+function snapshotOf(
+  value: unknown,
+  depth: number,
+  redact: readonly (string | RegExp)[],
+  ancestors: Set<unknown>,
+): unknown {
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  } else if (typeof value === "symbol") {
+    return value.toString();
+  } else if (typeof value === "function") {
+    return `[Function ${value.name || "(anonymous)"}]`;
+  } else if (typeof value !== "object" || value === null) {
+    return value;
+  } else if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  } else if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  } else if (ancestors.has(value)) {
+    return "[Circular]";
+  } else if (depth <= 0) {
+    return Array.isArray(value) ? "[Array]" : "[Object]";
+  }
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) =>
+        snapshotOf(item, depth - 1, redact, ancestors)
+      );
+    }
+    const entries: { [key: string]: unknown } = {};
+    for (const [key, field] of Object.entries(value)) {
+      entries[key] = isRedacted(key, redact)
+        ? "[REDACTED]"
+        : snapshotOf(field, depth - 1, redact, ancestors);
+    }
+    return entries;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+function isRedacted(
+  key: string,
+  redact: readonly (string | RegExp)[],
+): boolean {
+  return redact.some((pattern) =>
+    // Not RegExp#test, which is stateful with the g and y flags
+    typeof pattern === "string" ? pattern === key : key.search(pattern) !== -1
+  );
+}
+
+function format(snapshot: unknown): string {
+  return snapshot === undefined ? "undefined" : JSON.stringify(snapshot);
+}